@@ -2,193 +2,58 @@ import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react'
 import { 
   Square, History, Wand2, Mic2, Maximize2, Minimize2, 
   Zap, Upload, Plus, X, Trash2, Volume2, Save, Download,
-  Settings, Play, RefreshCw, Layers, Check, Copy, Share2
+  Settings, Play, Pause, RefreshCw, Layers, Check, Copy, Share2, Users, BookA, BookOpenText, FileUp, ListTree, ListChecks, Mic, AudioLines
 } from 'lucide-react';
-import { GoogleGenAI, Modality } from "@google/genai";
-
-// --- Types & Interfaces ---
-
-interface VoiceOption {
-  voice: SpeechSynthesisVoice | null;
-  name: string;
-  lang: string;
-  isCloned?: boolean;
-}
-
-interface HistoryItem {
-  id: string;
-  text: string;
-  timestamp: number;
-  voiceName: string;
-}
-
-interface ClonedVoice {
-  id: string;
-  name: string;
-  sampleBase64: string;
-  mimeType: string;
-}
-
-// --- Audio Utilities ---
-
-function decodeBase64(base64: string): Uint8Array {
-  const binaryString = atob(base64);
-  const bytes = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
-
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  // Assuming raw PCM 16-bit for Gemini audio output
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
-  return buffer;
-}
-
-// --- Sub-Components ---
-
-const Visualizer: React.FC<{ isPlaying: boolean }> = ({ isPlaying }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-
-  useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    let animationId: number;
-    let bars = Array.from({ length: 12 }, () => Math.random() * 8 + 2);
-
-    const animate = () => {
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      const barWidth = canvas.width / bars.length - 2;
-      
-      bars.forEach((h, i) => {
-        const targetH = isPlaying ? Math.random() * 18 + 4 : 2;
-        bars[i] += (targetH - bars[i]) * 0.15;
-        
-        ctx.fillStyle = isPlaying ? '#6366f1' : '#cbd5e1';
-        ctx.beginPath();
-        ctx.roundRect(i * (barWidth + 2), (canvas.height - bars[i]) / 2, barWidth, bars[i], 1.5);
-        ctx.fill();
-      });
-
-      animationId = requestAnimationFrame(animate);
-    };
-
-    animate();
-    return () => cancelAnimationFrame(animationId);
-  }, [isPlaying]);
-
-  return <canvas ref={canvasRef} width={50} height={20} className="opacity-70" />;
-};
-
-const CloneVoiceModal: React.FC<{
-  isOpen: boolean;
-  onClose: () => void;
-  onSave: (voice: ClonedVoice) => void;
-}> = ({ isOpen, onClose, onSave }) => {
-  const [name, setName] = useState('');
-  const [audioFile, setAudioFile] = useState<File | null>(null);
-  const [isProcessing, setIsProcessing] = useState(false);
-
-  if (!isOpen) return null;
-
-  const handleSubmit = async () => {
-    if (!name || !audioFile) return;
-    setIsProcessing(true);
-
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64 = (reader.result as string).split(',')[1];
-      onSave({
-        id: crypto.randomUUID(),
-        name,
-        sampleBase64: base64,
-        mimeType: audioFile.type
-      });
-      setIsProcessing(false);
-      setName('');
-      setAudioFile(null);
-      onClose();
-    };
-    reader.readAsDataURL(audioFile);
-  };
-
-  return (
-    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-md animate-in fade-in duration-200">
-      <div className="bg-white rounded-3xl p-8 max-w-md w-full shadow-2xl animate-in zoom-in-95 duration-200">
-        <div className="flex justify-between items-center mb-6">
-          <h3 className="text-xl font-bold text-slate-900 flex items-center gap-2">
-            <Mic2 className="text-indigo-600" size={24} />
-            Voice Identity Clone
-          </h3>
-          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors"><X size={20} /></button>
-        </div>
-        
-        <div className="space-y-5">
-          <div>
-            <label className="text-xs font-bold text-slate-400 uppercase mb-2 block">Voice Name</label>
-            <input 
-              type="text" 
-              value={name}
-              onChange={(e) => setName(e.target.value)}
-              placeholder="e.g., Digital Persona"
-              className="w-full h-12 px-4 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 ring-indigo-500/20 outline-none font-medium transition-all"
-            />
-          </div>
-
-          <div className="relative group">
-            <label className="text-xs font-bold text-slate-400 uppercase mb-2 block">Audio Sample (MP3/WAV)</label>
-            <div className={`h-32 border-2 border-dashed rounded-2xl flex flex-col items-center justify-center transition-all ${audioFile ? 'border-indigo-400 bg-indigo-50/50' : 'border-slate-200 hover:border-indigo-400'}`}>
-              <input 
-                type="file" 
-                accept="audio/*" 
-                onChange={(e) => setAudioFile(e.target.files?.[0] || null)}
-                className="absolute inset-0 opacity-0 cursor-pointer"
-              />
-              {audioFile ? (
-                <div className="text-center">
-                  <Check className="text-indigo-600 mx-auto mb-1" size={24} />
-                  <p className="text-sm font-bold text-indigo-700">{audioFile.name}</p>
-                </div>
-              ) : (
-                <div className="text-center">
-                  <Upload className="text-slate-300 group-hover:text-indigo-400 mx-auto mb-1" size={32} />
-                  <p className="text-xs font-bold text-slate-400 uppercase tracking-tighter">Click to upload voice sample</p>
-                </div>
-              )}
-            </div>
-          </div>
-
-          <button 
-            onClick={handleSubmit}
-            disabled={!name || !audioFile || isProcessing}
-            className="w-full h-14 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white rounded-2xl font-black shadow-lg shadow-indigo-200 transition-all flex items-center justify-center gap-2"
-          >
-            {isProcessing ? <RefreshCw className="animate-spin" size={18} /> : <Zap size={18} />}
-            {isProcessing ? 'CALIBRATING...' : 'CREATE AI PROFILE'}
-          </button>
-        </div>
-      </div>
-    </div>
-  );
-};
+import { VoiceOption, HistoryItem, ClonedVoice, RenderedAudio, ExportFormat, SpeakerSettings, GenerationSettings, LexiconEntry, SubtitleFormat, SubtitleOptions, TimedWord, PostProcessSettings, MusicBedSettings, MusicTrack, ImportedDocument, BatchJob, BatchRow, SharedSettings, SharedVoice, LanguageSettings, QueuedRender } from './types';
+import { encodeAudio, concatAudioBuffers, downloadBlob, makeExportFilename } from './utils/audio';
+import { TabAudioCapture, isTabCaptureSupported, startTabAudioCapture } from './utils/capture';
+import { loadClones, saveClone, renameClone, deleteClone, uniqueCloneName, exportCloneProfile, importCloneProfile } from './services/cloneStore';
+import { loadHistory, saveHistoryItem, updateHistoryItems, deleteHistoryItems, saveRender, loadRender, exportHistory } from './services/historyStore';
+import { splitSentences, buildChunks, splitWords, wordIndexAt, TextChunk } from './utils/segmenter';
+import { parseDialogue, listSpeakers, splitDialogueSentences } from './utils/dialogue';
+import { parseMarkup, runsInRange, tagRanges } from './utils/markup';
+import { estimateWordTimes, wordAtTime } from './utils/timing';
+import { entriesForLang, applyLexiconToRuns, lexiconToJson, lexiconToCsv, normalizeLexicon, parseLexiconFile } from './utils/lexicon';
+import { ChunkTiming, DEFAULT_SUBTITLE_OPTIONS, normalizeSubtitleOptions, timedWordsFromChunks, buildCues, formatSubtitles } from './utils/subtitles';
+import { DEFAULT_POST_PROCESS, EffectsChain, createEffectsChain, leadingTrim, normalizePostProcess, processRender, shapeVoice } from './utils/processing';
+import { DOCUMENT_ACCEPT, importDocument } from './utils/documents';
+import { buildBatchArchive, parseBatchFile } from './utils/batch';
+import { decodeShareFragment, encodeShareFragment, resolveSharedVoice } from './utils/share';
+import { cloneVoiceId, findVoice, migrateCast, samplePhrase, voiceForLanguage } from './utils/voices';
+import { DEFAULT_LANGUAGE_SETTINGS, assignLanguages, dominantLanguage, languageSpans, markLanguage, normalizeLanguageSettings, primaryLanguage, sameLanguage } from './utils/language';
+import { Dictation, appendPhrase, isDictationSupported, startDictation } from './utils/dictation';
+import { DEFAULT_MUSIC_BED, MixGraph, normalizeMusicBed, renderMix, scheduleMix } from './utils/mixer';
+import { stringList } from './utils/guards';
+import { readStored } from './utils/storage';
+import { GEMINI_SAMPLE_RATE, createGeminiEngine, transcribeAudio } from './services/gemini';
+import { SynthesisEngine, isAbortError } from './services/engine';
+import { createBrowserEngine } from './services/browserEngine';
+import { createMockEngine } from './services/mockEngine';
+import { renderBatchRow, runBatch } from './services/batch';
+import { normalizeRenderQueue, renderQueued } from './services/renderQueue';
+import {
+  ChunkPlayer, SpeechQueue,
+  createLiveChunkPlayer, createBufferChunkPlayer, createRoutingChunkPlayer, renderRuns, runSpeechQueue
+} from './services/speechQueue';
+import CloneVoiceModal from './components/CloneVoiceModal';
+import ClonedVoiceList from './components/ClonedVoiceList';
+import ChunkProgress from './components/ChunkProgress';
+import SpeakerCast from './components/SpeakerCast';
+import HighlightedTextarea from './components/HighlightedTextarea';
+import LexiconModal from './components/LexiconModal';
+import ReadAlongView from './components/ReadAlongView';
+import HistoryDrawer from './components/HistoryDrawer';
+import SubtitleExport from './components/SubtitleExport';
+import Visualizer from './components/Visualizer';
+import WaveformOverview from './components/WaveformOverview';
+import PostProcessPanel from './components/PostProcessPanel';
+import MusicBedPanel from './components/MusicBedPanel';
+import ChapterPicker from './components/ChapterPicker';
+import BatchModal from './components/BatchModal';
+import VoicePicker from './components/VoicePicker';
+import NetworkStatus from './components/NetworkStatus';
+import LanguagePanel from './components/LanguagePanel';
+import LanguageSpanList, { languageTint } from './components/LanguageSpanList';
 
 // --- Main App Component ---
 
@@ -196,7 +61,8 @@ export default function App() {
   const [text, setText] = useState('');
   const [voices, setVoices] = useState<VoiceOption[]>([]);
   const [clonedVoices, setClonedVoices] = useState<ClonedVoice[]>([]);
-  const [selectedVoice, setSelectedVoice] = useState('');
+  const [selectedVoiceId, setSelectedVoiceId] = useState('');
+  const [favoriteVoices, setFavoriteVoices] = useState<string[]>([]);
   const [rate, setRate] = useState(1);
   const [pitch, setPitch] = useState(1);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -205,142 +71,1242 @@ export default function App() {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isCloneModalOpen, setIsCloneModalOpen] = useState(false);
   const [isFocusMode, setIsFocusMode] = useState(false);
+  const [lastRender, setLastRender] = useState<RenderedAudio | null>(null);
+  const [captureBrowserVoice, setCaptureBrowserVoice] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [activeChunk, setActiveChunk] = useState<TextChunk | null>(null);
+  const [isDialogueMode, setIsDialogueMode] = useState(false);
+  const [cast, setCast] = useState<Record<string, SpeakerSettings>>({});
+  const [lexicon, setLexicon] = useState<LexiconEntry[]>([]);
+  const [isLexiconOpen, setIsLexiconOpen] = useState(false);
+  const [isReadAlong, setIsReadAlong] = useState(false);
+  const [importedDoc, setImportedDoc] = useState<ImportedDocument | null>(null);
+  const [activeSection, setActiveSection] = useState(-1);
+  const [isChapterPickerOpen, setIsChapterPickerOpen] = useState(false);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
+  const [batchJobs, setBatchJobs] = useState<BatchJob[]>([]);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const [batchConcurrency, setBatchConcurrency] = useState(3);
+  const [batchFormat, setBatchFormat] = useState<ExportFormat>('wav');
+  const [copied, setCopied] = useState<'link' | 'script' | null>(null);
+  // A share link whose voices are still being matched against the voice list.
+  const [pendingShare, setPendingShare] = useState<SharedSettings | null>(null);
+  const [activeWord, setActiveWord] = useState(-1);
+  const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [previewPosition, setPreviewPosition] = useState<number | null>(null);
+  const [subtitleOptions, setSubtitleOptions] = useState<SubtitleOptions>(DEFAULT_SUBTITLE_OPTIONS);
+  const [postProcess, setPostProcess] = useState<PostProcessSettings>(DEFAULT_POST_PROCESS);
+  const [musicTrack, setMusicTrack] = useState<MusicTrack | null>(null);
+  const [musicBed, setMusicBed] = useState<MusicBedSettings>(DEFAULT_MUSIC_BED);
+  const [isMixPreviewing, setIsMixPreviewing] = useState(false);
+  const [languageSettings, setLanguageSettings] = useState<LanguageSettings>(DEFAULT_LANGUAGE_SETTINGS);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [renderQueue, setRenderQueue] = useState<QueuedRender[]>([]);
+  const [isRenderingQueue, setIsRenderingQueue] = useState(false);
+  const [haveClonesLoaded, setHaveClonesLoaded] = useState(false);
+  // The clones the current voice list was built from.
+  const [listedClones, setListedClones] = useState<ClonedVoice[] | null>(null);
+  const [isDictating, setIsDictating] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
 
-  const synthRef = useRef<SpeechSynthesis | null>(null);
+  const clonesRef = useRef<ClonedVoice[]>([]);
+  clonesRef.current = clonedVoices;
+  // Patches land from async callbacks, after renders the closure never saw.
+  const historyRef = useRef<HistoryItem[]>([]);
+  historyRef.current = history;
   const audioContextRef = useRef<AudioContext | null>(null);
-  const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
+  // Everything played through Web Audio enters at the bus, runs through the
+  // effects chain so it is heard as it will export, then hits the analyser.
+  const busRef = useRef<GainNode | null>(null);
+  const chainRef = useRef<EffectsChain | null>(null);
+  const analyserRef = useRef<AnalyserNode | null>(null);
+  const previewRef = useRef<{ source: AudioBufferSourceNode; startedAt: number; offset: number } | null>(null);
+  const mixPreviewRef = useRef<MixGraph | null>(null);
+  const captureRef = useRef<TabAudioCapture | null>(null);
+  const queueRef = useRef<SpeechQueue | null>(null);
+  const sessionRef = useRef(0);
+  // Aborts the current playback's or preview's engine requests, and only those.
+  const sessionAbortRef = useRef<AbortController | null>(null);
+  const renderedChunksRef = useRef<AudioBuffer[]>([]);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const documentInputRef = useRef<HTMLInputElement>(null);
+  const audioInputRef = useRef<HTMLInputElement>(null);
+  // Dictation writes between `before` and `after`, the text either side of the
+  // caret when it started; the editor is read-only meanwhile.
+  const dictationRef = useRef<{ session: Dictation; before: string; after: string; spoken: string } | null>(null);
+  const transcribeAbortRef = useRef<AbortController | null>(null);
+  // Finished batch audio by row id; kept out of state since only the ZIP reads it.
+  const batchBuffersRef = useRef(new Map<string, AudioBuffer>());
+  const batchAbortRef = useRef<AbortController | null>(null);
+  // The queued render in progress; discarding it aborts the render.
+  const queueRenderRef = useRef<{ id: string; controller: AbortController } | null>(null);
+  // Estimated word clock for the clone buffer that is currently playing.
+  const wordClockRef = useRef<{ ctx: AudioContext; startTime: number; firstWord: number; times: number[] } | null>(null);
+  // Where each chunk landed on the render's timeline, for captions. Clone-only
+  // renders count buffer durations; anything with a browser voice uses the wall
+  // clock, which is what the tab capture records.
+  const timelineRef = useRef<{ origin: number; cursor: number; chunks: ChunkTiming[] }>({ origin: 0, cursor: 0, chunks: [] });
+  const historyIdRef = useRef<string | null>(null);
+  const autoplayRenderRef = useRef(false);
 
-  useEffect(() => {
-    if (typeof window !== 'undefined' && 'speechSynthesis' in window) {
-      synthRef.current = window.speechSynthesis;
-      const loadVoices = () => {
-        const availableVoices = window.speechSynthesis.getVoices();
-        const filtered = availableVoices
-          .map(v => ({ voice: v, name: v.name, lang: v.lang }))
-          .sort((a, b) => a.name.localeCompare(b.name));
-        
-        setVoices(filtered);
-        if (filtered.length > 0 && !selectedVoice) {
-          const preferred = filtered.find(v => v.lang.startsWith('en-US')) || filtered[0];
-          setSelectedVoice(preferred.name);
-        }
-      };
-      
-      loadVoices();
-      window.speechSynthesis.onvoiceschanged = loadVoices;
+  // The test-tone engine only shows up without an API key, or with ?mock in the URL.
+  const engines = useMemo(() => {
+    const list: SynthesisEngine[] = [createGeminiEngine(() => clonesRef.current)];
+    if (typeof window !== 'undefined' && 'speechSynthesis' in window) list.push(createBrowserEngine(window.speechSynthesis));
+    if (!process.env.API_KEY || new URLSearchParams(window.location.search).has('mock')) list.push(createMockEngine());
+    return list;
+  }, []);
+
+  const markup = useMemo(() => parseMarkup(text), [text]);
+  const hiddenRanges = useMemo(() => tagRanges(text), [text]);
+  const words = useMemo(() => splitWords(text, hiddenRanges), [text, hiddenRanges]);
+
+  const dialogueLines = useMemo(() => isDialogueMode ? parseDialogue(text) : [], [text, isDialogueMode]);
+  const speakers = useMemo(() => listSpeakers(dialogueLines), [dialogueLines]);
+  const sentences = useMemo(() => assignLanguages(
+    isDialogueMode ? splitDialogueSentences(dialogueLines) : splitSentences(text),
+    text, markup.langs, languageSettings.detect,
+  ), [text, isDialogueMode, dialogueLines, markup, languageSettings.detect]);
+  const documentLang = useMemo(() => dominantLanguage(sentences, markup.langs), [sentences, markup]);
+
+  const refreshVoices = useCallback(async () => {
+    const clones = clonesRef.current;
+    const lists = await Promise.all(engines.map(e => e.listVoices().catch(err => {
+      console.error(`${e.label} voice list error:`, err);
+      return [] as VoiceOption[];
+    })));
+    const all = lists.flat();
+    setVoices(all);
+    setListedClones(clones);
+    if (all.length > 0) {
+      const preferred = all.find(v => v.lang.startsWith('en-US')) || all[0];
+      setSelectedVoiceId(prev => prev || preferred.id);
     }
+  }, [engines]);
+
+  useEffect(() => {
+    refreshVoices();
+    const unsubscribes = engines.map(e => e.onVoicesChanged?.(refreshVoices));
+    return () => unsubscribes.forEach(u => u?.());
+  }, [engines, refreshVoices]);
+
+  // Clones are listed by the Gemini engine, so its voices change with them.
+  useEffect(() => { refreshVoices(); }, [clonedVoices, refreshVoices]);
+
+  useEffect(() => {
+    setSubtitleOptions(readStored('voice_studio_v2_subtitles', normalizeSubtitleOptions, DEFAULT_SUBTITLE_OPTIONS));
+    setPostProcess(readStored('voice_studio_v2_post', normalizePostProcess, DEFAULT_POST_PROCESS));
+    setMusicBed(readStored('voice_studio_v2_music', normalizeMusicBed, DEFAULT_MUSIC_BED));
+    setRenderQueue(readStored('voice_studio_v2_render_queue', normalizeRenderQueue, []));
+    setLanguageSettings(readStored('voice_studio_v2_languages', normalizeLanguageSettings, DEFAULT_LANGUAGE_SETTINGS));
+    setLexicon(readStored('voice_studio_v2_lexicon', normalizeLexicon, []));
+    setCast(readStored('voice_studio_v2_cast', migrateCast, {}));
+    const savedVoice = localStorage.getItem('voice_studio_v2_voice');
+    if (savedVoice) setSelectedVoiceId(savedVoice);
+    setFavoriteVoices(readStored('voice_studio_v2_favorite_voices', stringList, []));
+    loadHistory()
+      .then(setHistory)
+      .catch(err => console.error('History storage error:', err));
+    loadClones()
+      .then(setClonedVoices)
+      .catch(err => console.error('Clone storage error:', err))
+      .finally(() => setHaveClonesLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    if (selectedVoiceId) localStorage.setItem('voice_studio_v2_voice', selectedVoiceId);
+  }, [selectedVoiceId]);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
 
-    const savedHistory = localStorage.getItem('voice_studio_v2_history');
-    if (savedHistory) setHistory(JSON.parse(savedHistory));
-    const savedClones = localStorage.getItem('voice_studio_v2_clones');
-    if (savedClones) setClonedVoices(JSON.parse(savedClones));
+  // Opening a share link restores the editor straight away; voices follow once
+  // the lists load. The fragment is then dropped so a reload keeps later edits.
+  useEffect(() => {
+    let timer: number | undefined;
+    const openShareLink = async () => {
+      try {
+        const shared = await decodeShareFragment(window.location.hash);
+        if (!shared) return;
+        handleStop();
+        setText(shared.text);
+        setRate(shared.rate);
+        setPitch(shared.pitch);
+        setIsDialogueMode(shared.isDialogueMode);
+        setPendingShare(shared);
+        window.history.replaceState(null, '', window.location.pathname + window.location.search);
+        setStatus('Shared Settings Loaded');
+        // Browser voices and clones arrive separately; stop re-matching after a moment.
+        window.clearTimeout(timer);
+        timer = window.setTimeout(() => setPendingShare(null), 3000);
+      } catch (err) {
+        console.error('Share link error:', err);
+        setStatus(err instanceof Error ? err.message : 'Invalid Share Link');
+      }
+    };
+    openShareLink();
+    window.addEventListener('hashchange', openShareLink);
+    return () => {
+      window.removeEventListener('hashchange', openShareLink);
+      window.clearTimeout(timer);
+    };
   }, []);
 
+  useEffect(() => {
+    const shared = pendingShare;
+    if (!shared || voices.length === 0) return;
+    const main = shared.voice ? resolveSharedVoice(shared.voice, voices) : null;
+    if (main?.voice) setSelectedVoiceId(main.voice.id);
+
+    const entries = Object.entries(shared.cast);
+    let exact = !main || main.exact;
+    if (entries.length > 0) {
+      const next: Record<string, SpeakerSettings> = {};
+      entries.forEach(([speaker, s]) => {
+        const match = resolveSharedVoice(s.voice, voices);
+        exact = exact && match.exact;
+        next[speaker] = { voiceId: match.voice?.id ?? main?.voice?.id ?? selectedVoiceId, rate: s.rate, pitch: s.pitch };
+      });
+      setCast(next);
+      localStorage.setItem('voice_studio_v2_cast', JSON.stringify(next));
+    }
+
+    if (exact) {
+      setPendingShare(null);
+      setStatus('Shared Settings Loaded');
+    } else if (shared.voice && !main?.exact) {
+      setStatus(main?.voice ? `"${shared.voice.name}" Unavailable, Using ${main.voice.name}` : `"${shared.voice.name}" Unavailable`);
+    } else {
+      setStatus('Some Cast Voices Unavailable');
+    }
+  }, [pendingShare, voices]);
+
+  const stopQueue = () => {
+    sessionRef.current++;
+    queueRef.current?.stop();
+    queueRef.current = null;
+    sessionAbortRef.current?.abort();
+    sessionAbortRef.current = null;
+  };
+
+  // Halts the last-render preview but keeps the playhead where it stopped.
+  const stopPreview = () => {
+    if (mixPreviewRef.current) {
+      mixPreviewRef.current.stop();
+      mixPreviewRef.current = null;
+      setIsMixPreviewing(false);
+    }
+    const preview = previewRef.current;
+    if (!preview) return;
+    previewRef.current = null;
+    preview.source.onended = null;
+    try { preview.source.stop(); } catch (e) {}
+    setIsPreviewing(false);
+  };
+
   const handleStop = useCallback(() => {
-    if (synthRef.current) synthRef.current.cancel();
-    if (sourceNodeRef.current) {
-      try { sourceNodeRef.current.stop(); } catch (e) {}
-      sourceNodeRef.current = null;
+    stopQueue();
+    stopPreview();
+    if (captureRef.current) {
+      captureRef.current.cancel();
+      captureRef.current = null;
     }
+    wordClockRef.current = null;
+    historyIdRef.current = null;
     setIsPlaying(false);
+    setIsPaused(false);
+    setActiveChunk(null);
+    setActiveWord(-1);
     setStatus('Ready');
   }, []);
 
-  const addToHistory = (txt: string, voice: string) => {
+  const currentSettings = (): GenerationSettings => ({ voiceId: selectedVoiceId, rate, pitch, isDialogueMode, cast });
+
+  const addToHistory = (txt: string, voice: string, settings = currentSettings()) => {
     const newItem: HistoryItem = {
-      id: Math.random().toString(36).substring(7),
+      id: crypto.randomUUID(),
       text: txt,
       voiceName: voice,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      settings,
     };
-    const updated = [newItem, ...history.slice(0, 19)];
-    setHistory(updated);
-    localStorage.setItem('voice_studio_v2_history', JSON.stringify(updated));
+    historyRef.current = [newItem, ...historyRef.current];
+    setHistory(prev => [newItem, ...prev]);
+    saveHistoryItem(newItem).catch(err => console.error('History save error:', err));
+    return newItem.id;
   };
 
-  const handleGenerate = async () => {
-    if (!text.trim()) return;
-    handleStop();
+  const patchHistoryItem = (id: string, changes: Partial<HistoryItem>) => {
+    const item = historyRef.current.find(h => h.id === id);
+    if (!item) return;
+    const updated = { ...item, ...changes };
+    historyRef.current = historyRef.current.map(h => h.id === id ? updated : h);
+    setHistory(prev => prev.map(h => h.id === id ? { ...h, ...changes } : h));
+    saveHistoryItem(updated).catch(err => console.error('History save error:', err));
+  };
 
-    const clone = clonedVoices.find(v => v.name === selectedVoice);
-    
-    if (clone) {
-      setStatus('AI Synthesizing...');
-      setIsPlaying(true);
-      try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-        const response = await ai.models.generateContent({
-          model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-          contents: {
-            parts: [
-              { inlineData: { data: clone.sampleBase64, mimeType: clone.mimeType } },
-              { text: `Synthesize this text using the provided voice identity exactly. Output raw audio only: "${text}"` }
-            ]
+  // Keeps the render so a replay from the archive never goes back to the engine.
+  const cacheRender = async (historyId: string, buffer: AudioBuffer) => {
+    try {
+      await saveRender(historyId, buffer);
+      patchHistoryItem(historyId, { audioDuration: buffer.duration });
+    } catch (err) {
+      console.error('Render cache error:', err);
+    }
+  };
+
+  const getAudioContext = async () => {
+    if (!audioContextRef.current) {
+      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: GEMINI_SAMPLE_RATE });
+      const node = audioContextRef.current.createAnalyser();
+      node.fftSize = 256;
+      node.connect(audioContextRef.current.destination);
+      analyserRef.current = node;
+      // Dry until the effects chain is built on the next render.
+      busRef.current = audioContextRef.current.createGain();
+      busRef.current.connect(node);
+      setAnalyser(node);
+    }
+    const ctx = audioContextRef.current;
+    if (ctx.state === 'suspended') await ctx.resume();
+    return ctx;
+  };
+
+  // Rebuilds the live effects chain whenever the presets change.
+  useEffect(() => {
+    const ctx = audioContextRef.current;
+    const bus = busRef.current;
+    if (!ctx || !bus || !analyser) return;
+    const chain = createEffectsChain(ctx, postProcess);
+    bus.disconnect();
+    chainRef.current?.output.disconnect();
+    bus.connect(chain.input);
+    chain.output.connect(analyser);
+    chainRef.current = chain;
+  }, [postProcess, analyser]);
+
+  // A buffer render that started past the top of the script (a seek or a word
+  // click) is only part of it, so it isn't kept as the render.
+  const finishPlayback = async (label: string, allRendered: boolean, isPartial: boolean) => {
+    wordClockRef.current = null;
+    setIsPlaying(false);
+    setIsPaused(false);
+    setActiveChunk(null);
+    setActiveWord(-1);
+
+    const timing = timedWordsFromChunks(text, words, timelineRef.current.chunks);
+    const historyId = historyIdRef.current;
+    historyIdRef.current = null;
+    if (isPartial) {
+      setStatus('Complete (Partial, Not Saved)');
+      return;
+    }
+    if (historyId && timing.length > 0) patchHistoryItem(historyId, { timing });
+
+    if (allRendered) {
+      const joined = concatAudioBuffers(renderedChunksRef.current);
+      if (joined) {
+        setLastRender({ buffer: joined, label, createdAt: Date.now(), timing });
+        if (historyId) cacheRender(historyId, joined);
+      }
+      setStatus('Complete');
+      return;
+    }
+
+    // Cloned lines alone would make a render with the browser lines missing.
+    const capture = captureRef.current;
+    if (!capture) {
+      if (renderedChunksRef.current.length > 0) {
+        setLastRender(null);
+        setStatus('Mixed Cast Needs Capture to Export');
+      } else {
+        setStatus('Complete');
+      }
+      return;
+    }
+    captureRef.current = null;
+    setStatus('Finalizing Capture...');
+    try {
+      const buffer = await capture.stop();
+      setLastRender({ buffer, label, createdAt: Date.now(), timing });
+      if (historyId) cacheRender(historyId, buffer);
+      setStatus('Complete');
+    } catch (err) {
+      console.error('Capture decode error:', err);
+      setStatus('Capture Failed');
+    }
+  };
+
+  // Untagged text and speakers without a cast entry use the main settings.
+  const speakerSettingsFor = (speaker?: string): SpeakerSettings =>
+    (isDialogueMode && speaker && cast[speaker]) || { voiceId: selectedVoiceId, rate, pitch };
+
+  // Clones declare no language and are taken to speak the script's main one.
+  const isForeign = (lang: string, speaker?: string) => {
+    const own = findVoice(voices, speakerSettingsFor(speaker).voiceId)?.lang || documentLang;
+    return !own || !sameLanguage(lang, own);
+  };
+
+  // Text in another language goes to a voice for it, when one is installed,
+  // at the speaker's rate and pitch.
+  const settingsFor = (speaker?: string, lang?: string): SpeakerSettings => {
+    const settings = speakerSettingsFor(speaker);
+    if (!lang || !isForeign(lang, speaker)) return settings;
+    const voice = voiceForLanguage(voices, lang, languageSettings.voices);
+    return voice ? { ...settings, voiceId: voice.id } : settings;
+  };
+
+  const voiceFor = (speaker?: string, lang?: string) => findVoice(voices, settingsFor(speaker, lang).voiceId);
+
+  // An unknown voice (say, one whose list hasn't loaded yet) falls back to the
+  // browser's default voice.
+  const engineFor = (speaker?: string, lang?: string): SynthesisEngine => {
+    const id = voiceFor(speaker, lang)?.engine ?? 'browser';
+    return engines.find(e => e.id === id) ?? engines[0];
+  };
+
+  const rendersFor = (speaker?: string, lang?: string) => engineFor(speaker, lang).capabilities.output === 'buffer';
+
+  // Clones have no declared language, so only unscoped lexicon entries apply to them.
+  const langFor = (speaker?: string, lang?: string) => voiceFor(speaker, lang)?.lang || null;
+
+  // Listed under the editor: text in another language than its speaker's
+  // voice, plus every <lang> tag.
+  const foreignSpans = languageSpans(sentences, markup.langs).filter(span => span.mark || isForeign(span.lang, span.speaker));
+  const foreignLanguages = Array.from(new Set(foreignSpans
+    .filter(span => isForeign(span.lang, span.speaker))
+    .map(span => primaryLanguage(span.lang))));
+
+  const selectTextRange = (start: number, end: number) => {
+    textareaRef.current?.focus();
+    textareaRef.current?.setSelectionRange(start, end);
+  };
+
+  const handleMarkSelection = (lang: string) => {
+    const el = textareaRef.current;
+    if (!el || el.selectionStart === el.selectionEnd) {
+      setStatus('Select Text First');
+      return;
+    }
+    setText(markLanguage(text, { start: el.selectionStart, end: el.selectionEnd, mark: null }, lang));
+  };
+
+  const handleCastChange = (speaker: string, settings: SpeakerSettings | null) => {
+    setCast(prev => {
+      const next = { ...prev };
+      if (settings) next[speaker] = settings;
+      else delete next[speaker];
+      localStorage.setItem('voice_studio_v2_cast', JSON.stringify(next));
+      return next;
+    });
+  };
+
+  // Starts (or restarts, for a seek) the chunk queue at the given sentence,
+  // optionally from a word offset inside it.
+  const startPlayback = async (fromSentence: number, fromOffset?: number) => {
+    const isSeek = !!queueRef.current;
+    stopQueue();
+    wordClockRef.current = null;
+    const session = sessionRef.current;
+    const isCurrent = () => session === sessionRef.current;
+    const controller = new AbortController();
+    sessionAbortRef.current = controller;
+
+    const chunks = buildChunks(sentences, s => engineFor(s.speaker, s.lang).capabilities.maxChunkChars, fromSentence);
+    if (chunks.length === 0) return;
+    if (fromOffset !== undefined && fromOffset > chunks[0].start && fromOffset < chunks[0].end) {
+      chunks[0] = { ...chunks[0], start: fromOffset, text: text.slice(fromOffset, chunks[0].end) };
+    }
+    const allRendered = chunks.every(c => rendersFor(c.speaker, c.lang));
+    const isPartial = allRendered && chunks[0].start > (sentences[0]?.start ?? 0);
+    const ctx = chunks.some(c => rendersFor(c.speaker, c.lang)) ? await getAudioContext() : null;
+    const progress = (chunk: TextChunk) =>
+      `${chunk.index + 1}/${chunks.length}${isDialogueMode && chunk.speaker ? ` · ${chunk.speaker}` : ''}`
+      + (chunk.lang && isForeign(chunk.lang, chunk.speaker) ? ` · ${chunk.lang.toUpperCase()}` : '');
+
+    const runsFor = (chunk: TextChunk) => applyLexiconToRuns(
+      runsInRange(markup.runs, chunk.start, chunk.end),
+      entriesForLang(lexicon, langFor(chunk.speaker, chunk.lang)),
+    );
+
+    renderedChunksRef.current = [];
+    // A seek restarts a buffer render from scratch, but a capture keeps rolling.
+    if (!isSeek || allRendered) timelineRef.current = { origin: performance.now(), cursor: 0, chunks: [] };
+    const timeline = timelineRef.current;
+    const clockNow = () => (performance.now() - timeline.origin) / 1000;
+    const players = new Map<string, ChunkPlayer>();
+    const playerFor = (chunk: TextChunk): ChunkPlayer => {
+      const settings = settingsFor(chunk.speaker, chunk.lang);
+      const key = `${settings.voiceId}|${settings.rate}|${settings.pitch}`;
+      const existing = players.get(key);
+      if (existing) return existing;
+
+      const engine = engineFor(chunk.speaker, chunk.lang);
+      const voiceSettings = { voice: voiceFor(chunk.speaker, chunk.lang), rate: settings.rate, pitch: settings.pitch };
+      const player = engine.capabilities.output === 'buffer' && ctx
+        ? createBufferChunkPlayer(ctx, c => renderRuns(engine, runsFor(c), voiceSettings, ctx, {
+          withCues: markup.hasMarkup,
+          signal: controller.signal,
+          onRetry: attempt => { if (isCurrent()) setStatus(`Retrying ${progress(c)} (${attempt})...`); },
+        }), {
+          onRendering: c => { if (isCurrent()) setStatus(`AI Synthesizing ${progress(c)}...`); },
+          onBuffer: (c, buffer) => {
+            if (!isCurrent()) return;
+            renderedChunksRef.current.push(buffer);
+            setStatus(`Playing ${progress(c)}`);
+          },
+          onPlay: (c, buffer, startTime) => {
+            if (!isCurrent()) return;
+            const t0 = allRendered ? timeline.cursor : clockNow();
+            timeline.chunks.push({ start: c.start, end: c.end, t0, t1: t0 + buffer.duration, wordTimes: [] });
+            timeline.cursor += buffer.duration;
+            const firstWord = wordIndexAt(words, c.start);
+            const chunkWords = firstWord < 0 ? [] : words.slice(firstWord).filter(w => w.start < c.end);
+            wordClockRef.current = { ctx, startTime, firstWord, times: estimateWordTimes(text, chunkWords, buffer.duration) };
+          },
+        }, busRef.current!)
+        : createLiveChunkPlayer(engine, voiceSettings, runsFor, {
+          onWord: offset => {
+            if (!isCurrent()) return;
+            setActiveWord(wordIndexAt(words, offset));
+            timeline.chunks[timeline.chunks.length - 1]?.wordTimes.push({ offset, time: clockNow() });
           },
-          config: { responseModalities: [Modality.AUDIO] }
         });
+      players.set(key, player);
+      return player;
+    };
+    if (!isCurrent()) return;
+
+    setIsPlaying(true);
+    setIsPaused(false);
+    queueRef.current = runSpeechQueue(chunks, createRoutingChunkPlayer(playerFor), {
+      onChunkStart: chunk => {
+        if (!isCurrent()) return;
+        wordClockRef.current = null;
+        setActiveChunk(chunk);
+        setActiveWord(wordIndexAt(words, chunk.start));
+        if (!rendersFor(chunk.speaker, chunk.lang)) {
+          setStatus(`Speaking ${progress(chunk)}`);
+          timeline.chunks.push({ start: chunk.start, end: chunk.end, t0: clockNow(), t1: NaN, wordTimes: [] });
+        }
+      },
+      onChunkEnd: chunk => {
+        if (!isCurrent() || rendersFor(chunk.speaker, chunk.lang)) return;
+        const last = timeline.chunks[timeline.chunks.length - 1];
+        if (last && Number.isNaN(last.t1)) last.t1 = clockNow();
+      },
+      onComplete: () => {
+        if (!isCurrent()) return;
+        queueRef.current = null;
+        finishPlayback(text, allRendered, isPartial);
+      },
+      onError: err => {
+        if (!isCurrent()) return;
+        console.error('Synthesis error:', err);
+        handleStop();
+        setStatus(err instanceof Error ? err.message : allRendered ? 'Engine Error' : 'Error');
+      },
+    });
+  };
+
+  const generationLabel = () => isDialogueMode && speakers.length > 0
+    ? `Dialogue: ${speakers.join(', ')}`
+    : voiceFor()?.isCloned ? `Clone: ${voiceFor()?.name}` : voiceFor()?.name ?? 'Default Voice';
+
+  const updateRenderQueue = (update: (queue: QueuedRender[]) => QueuedRender[]) => {
+    setRenderQueue(prev => {
+      const next = update(prev);
+      localStorage.setItem('voice_studio_v2_render_queue', JSON.stringify(next));
+      return next;
+    });
+  };
 
-        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-        if (base64Audio) {
-          if (!audioContextRef.current) {
-            audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-          }
-          const ctx = audioContextRef.current;
-          if (ctx.state === 'suspended') await ctx.resume();
-          
-          const audioData = decodeBase64(base64Audio);
-          const buffer = await decodeAudioData(audioData, ctx, 24000, 1);
-          
-          const source = ctx.createBufferSource();
-          source.buffer = buffer;
-          source.connect(ctx.destination);
-          source.onended = () => {
-            setIsPlaying(false);
-            setStatus('Complete');
-          };
-          source.start();
-          sourceNodeRef.current = source;
-          addToHistory(text, `Clone: ${clone.name}`);
+  // Queued renders go out one at a time once the connection is back and the
+  // voice list includes the stored clones. A failure that going online won't
+  // fix stays listed with its error until discarded.
+  const areVoicesCurrent = haveClonesLoaded && listedClones === clonedVoices;
+  useEffect(() => {
+    const next = renderQueue.find(item => !item.error);
+    if (!next || !isOnline || !areVoicesCurrent || queueRenderRef.current) return;
+    if (next.chunks.some(chunk => !findVoice(voices, chunk.voiceId))) {
+      updateRenderQueue(prev => prev.map(item => item.id === next.id ? { ...item, error: 'Queued voice no longer exists' } : item));
+      return;
+    }
+    const controller = new AbortController();
+    queueRenderRef.current = { id: next.id, controller };
+    setIsRenderingQueue(true);
+    setStatus('Rendering Queued Script...');
+    (async () => {
+      try {
+        const buffer = await renderQueued(next, voices, engines, lexicon, await getAudioContext(), controller.signal);
+        const historyId = addToHistory(next.text, next.voiceName, next.settings);
+        await cacheRender(historyId, buffer);
+        updateRenderQueue(prev => prev.filter(item => item.id !== next.id));
+        setStatus('Queued Render Saved to History');
+      } catch (err) {
+        if (isAbortError(err)) {
+          setStatus('Ready');
+          return;
+        }
+        console.error('Queued render error:', err);
+        if (navigator.onLine) {
+          const error = err instanceof Error ? err.message : 'Render Failed';
+          updateRenderQueue(prev => prev.map(item => item.id === next.id ? { ...item, error } : item));
         }
+        setStatus('Queued Render Failed');
+      } finally {
+        queueRenderRef.current = null;
+        setIsRenderingQueue(false);
+      }
+    })();
+  }, [renderQueue, isOnline, areVoicesCurrent, isRenderingQueue, voices]);
+
+  const handleDiscardQueued = (id: string) => {
+    if (queueRenderRef.current?.id === id) queueRenderRef.current.controller.abort();
+    updateRenderQueue(prev => prev.filter(item => item.id !== id));
+  };
+
+  const handleGenerate = async () => {
+    if (!text.trim()) return;
+    handleStop();
+
+    // Offline, a script read only by rendering voices waits in the queue; one
+    // that also needs a browser voice live can't be split, so it's refused.
+    if (!isOnline && sentences.some(s => engineFor(s.speaker, s.lang).capabilities.needsNetwork)) {
+      if (sentences.some(s => !rendersFor(s.speaker, s.lang))) {
+        setStatus('Cloned Voices Need a Connection');
+        return;
+      }
+      const chunks = buildChunks(sentences, s => engineFor(s.speaker, s.lang).capabilities.maxChunkChars)
+        .map(c => ({ start: c.start, end: c.end, ...settingsFor(c.speaker, c.lang) }));
+      const item: QueuedRender = {
+        id: crypto.randomUUID(),
+        text,
+        voiceName: generationLabel(),
+        settings: currentSettings(),
+        chunks,
+        createdAt: Date.now(),
+      };
+      updateRenderQueue(prev => [...prev, item]);
+      setStatus('Queued Until Online');
+      return;
+    }
+
+    const usesLiveVoice = sentences.some(s => !rendersFor(s.speaker, s.lang));
+    if (usesLiveVoice && captureBrowserVoice) {
+      setStatus('Awaiting Capture...');
+      try {
+        captureRef.current = await startTabAudioCapture();
       } catch (err) {
-        console.error('AI Synthesis error:', err);
-        setStatus('Engine Error');
-        setIsPlaying(false);
+        console.error('Tab capture error:', err);
+        setStatus('Capture Denied');
+        return;
       }
+    }
+
+    historyIdRef.current = addToHistory(text, generationLabel());
+    await startPlayback(0);
+  };
+
+  const updateLexicon = (entries: LexiconEntry[]) => {
+    setLexicon(entries);
+    localStorage.setItem('voice_studio_v2_lexicon', JSON.stringify(entries));
+  };
+
+  // Speaks the replacement the way the engine will hear it, with the current voice.
+  // Speaks a short phrase outside the queue, for lexicon and voice previews.
+  const previewPhrase = async (phrase: string, voice: VoiceOption | undefined) => {
+    handleStop();
+    const session = sessionRef.current;
+    const controller = new AbortController();
+    sessionAbortRef.current = controller;
+    const engine = engines.find(e => e.id === (voice?.engine ?? 'browser')) ?? engines[0];
+    if (!isOnline && engine.capabilities.needsNetwork) {
+      setStatus('Cloned Voices Need a Connection');
       return;
     }
+    const request = { text: phrase, voice, rate, pitch };
+    try {
+      if (engine.synthesize) {
+        setStatus('AI Synthesizing...');
+        const ctx = await getAudioContext();
+        const raw = await engine.synthesize({ ...request, signal: controller.signal }, ctx);
+        // Stop or a new generate since the request went out: drop the answer.
+        if (session !== sessionRef.current) return;
+        const source = ctx.createBufferSource();
+        source.buffer = engine.capabilities.prosody ? raw : shapeVoice(raw, rate, pitch);
+        source.connect(busRef.current!);
+        source.start();
+        setStatus('Ready');
+      } else {
+        await engine.speak?.(request);
+      }
+    } catch (err) {
+      if (isAbortError(err) || session !== sessionRef.current) return;
+      console.error('Preview error:', err);
+      setStatus(err instanceof Error ? err.message : 'Engine Error');
+    }
+  };
+
+  const handlePreviewEntry = (entry: LexiconEntry) => previewPhrase(entry.replacement.trim() || entry.term, voiceFor());
+
+  const handlePreviewVoice = (voice: VoiceOption) => previewPhrase(samplePhrase(voice.lang || voiceFor()?.lang || ''), voice);
+
+  const handleToggleFavoriteVoice = (id: string) => {
+    setFavoriteVoices(prev => {
+      const next = prev.includes(id) ? prev.filter(f => f !== id) : [...prev, id];
+      localStorage.setItem('voice_studio_v2_favorite_voices', JSON.stringify(next));
+      return next;
+    });
+  };
+
+  const handleImportLexicon = async (file: File) => {
+    try {
+      const imported = parseLexiconFile(file.name, await file.text());
+      const key = (e: LexiconEntry) => `${e.term.toLowerCase()}|${e.lang.toLowerCase()}`;
+      const replaced = new Set(imported.map(key));
+      updateLexicon([...imported, ...lexicon.filter(e => !replaced.has(key(e)))]);
+      setStatus(`Imported ${imported.length} Term${imported.length === 1 ? '' : 's'}`);
+    } catch (err) {
+      console.error('Lexicon import error:', err);
+      setStatus(err instanceof Error ? err.message : 'Import Failed');
+    }
+  };
+
+  const handleExportLexicon = (format: 'json' | 'csv') => {
+    const blob = format === 'csv'
+      ? new Blob([lexiconToCsv(lexicon)], { type: 'text/csv' })
+      : new Blob([lexiconToJson(lexicon)], { type: 'application/json' });
+    downloadBlob(blob, makeExportFilename('lexicon', format));
+  };
+
+  const handleSeek = (sentenceIndex: number) => {
+    if (!isPlaying) return;
+    startPlayback(sentenceIndex);
+  };
 
-    if (!synthRef.current) return;
-    const utterance = new SpeechSynthesisUtterance(text);
-    const targetVoice = voices.find(v => v.name === selectedVoice)?.voice;
-    if (targetVoice) utterance.voice = targetVoice;
-    utterance.rate = rate;
-    utterance.pitch = pitch;
+  const handleWordClick = (offset: number) => {
+    const sentence = sentences.find(s => s.end > offset);
+    if (!sentence) return;
+    startPlayback(sentence.index, offset);
+  };
 
-    utterance.onstart = () => {
-      setIsPlaying(true);
-      setStatus('Speaking...');
-      addToHistory(text, selectedVoice);
+  // Drives the highlight for clone playback from the estimated word clock.
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame: number;
+    const tick = () => {
+      const clock = wordClockRef.current;
+      if (clock) {
+        const idx = wordAtTime(clock.times, clock.ctx.currentTime - clock.startTime);
+        if (idx >= 0) setActiveWord(clock.firstWord + idx);
+      }
+      frame = requestAnimationFrame(tick);
     };
-    utterance.onend = () => {
-      setIsPlaying(false);
-      setStatus('Complete');
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+
+  const activeSentence = useMemo(() => {
+    const offset = activeWord >= 0 ? words[activeWord]?.start : activeChunk?.start;
+    if (offset === undefined) return null;
+    return sentences.find(s => offset >= s.start && offset < s.end) ?? null;
+  }, [activeWord, activeChunk, words, sentences]);
+
+  const handlePauseToggle = () => {
+    if (!queueRef.current) return;
+    if (isPaused) {
+      queueRef.current.resume();
+      setIsPaused(false);
+      setStatus('Resumed');
+    } else {
+      queueRef.current.pause();
+      setIsPaused(true);
+      setStatus('Paused');
+    }
+  };
+
+  const playRender = async (from: number) => {
+    if (!lastRender) return;
+    stopPreview();
+    const ctx = await getAudioContext();
+    const source = ctx.createBufferSource();
+    source.buffer = lastRender.buffer;
+    source.connect(busRef.current!);
+    source.onended = () => {
+      if (previewRef.current?.source !== source) return;
+      previewRef.current = null;
+      setIsPreviewing(false);
+      setPreviewPosition(null);
     };
-    utterance.onerror = () => {
-      setStatus('Error');
-      setIsPlaying(false);
+    const offset = from >= lastRender.buffer.duration ? 0 : from;
+    source.start(0, offset);
+    previewRef.current = { source, startedAt: ctx.currentTime, offset };
+    setIsPreviewing(true);
+    setPreviewPosition(offset);
+  };
+
+  const handleRenderSeek = (seconds: number) => {
+    if (isPreviewing) playRender(seconds);
+    else setPreviewPosition(seconds);
+  };
+
+  // A new render replaces the one under the playhead.
+  useEffect(() => {
+    stopPreview();
+    setPreviewPosition(null);
+    if (autoplayRenderRef.current) {
+      autoplayRenderRef.current = false;
+      playRender(0);
+    }
+  }, [lastRender]);
+
+  useEffect(() => {
+    if (!isPreviewing) return;
+    let frame: number;
+    const tick = () => {
+      const preview = previewRef.current;
+      const ctx = audioContextRef.current;
+      if (preview && ctx) setPreviewPosition(preview.offset + ctx.currentTime - preview.startedAt);
+      frame = requestAnimationFrame(tick);
     };
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, [isPreviewing]);
+
+  // Exports lay the voice over the music bed whenever a track is loaded and on.
+  const isMixing = !!musicTrack && musicBed.enabled;
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!lastRender) return;
+    setIsExporting(true);
+    setStatus('Processing...');
+    try {
+      const voice = await processRender(lastRender.buffer, postProcess);
+      const processed = isMixing ? await renderMix(voice, musicTrack!.buffer, musicBed) : voice;
+      // Yield a frame so the button state paints before the encoder blocks the thread.
+      await new Promise(resolve => setTimeout(resolve, 16));
+      downloadBlob(encodeAudio(processed, format), makeExportFilename(lastRender.label, format));
+      setStatus('Ready');
+    } catch (err) {
+      console.error('Export error:', err);
+      setStatus('Export Failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // The bed goes straight to the analyser; only the voice takes the effects chain.
+  const playMix = async () => {
+    if (!lastRender || !musicTrack) return;
+    stopPreview();
+    const ctx = await getAudioContext();
+    const graph = scheduleMix(ctx, lastRender.buffer, musicTrack.buffer, musicBed, {
+      voice: busRef.current!,
+      music: analyserRef.current!,
+    }, ctx.currentTime);
+    mixPreviewRef.current = graph;
+    setIsMixPreviewing(true);
+    graph.ended.then(() => {
+      if (mixPreviewRef.current !== graph) return;
+      mixPreviewRef.current = null;
+      setIsMixPreviewing(false);
+    });
+  };
+
+  // Single-section documents go straight into the editor; books and PDFs
+  // open the chapter picker.
+  const handleImportDocument = async (file: File) => {
+    setStatus('Importing...');
+    try {
+      const doc = await importDocument(file);
+      if (doc.sections.length === 1) {
+        handleStop();
+        setImportedDoc(null);
+        setText(doc.sections[0].text);
+        setStatus('Imported');
+      } else {
+        setImportedDoc(doc);
+        setActiveSection(-1);
+        setIsChapterPickerOpen(true);
+        setStatus('Ready');
+      }
+    } catch (err) {
+      console.error('Document import error:', err);
+      setStatus(err instanceof Error ? err.message : 'Import Failed');
+    }
+  };
+
+  const handleSelectSection = (index: number) => {
+    if (!importedDoc) return;
+    handleStop();
+    setText(importedDoc.sections[index].text);
+    setActiveSection(index);
+    setIsChapterPickerOpen(false);
+    setStatus('Ready');
+  };
+
+  const handleEditorDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const file = e.dataTransfer.files?.[0];
+    if (!file || isPlaying || isDictating) return;
+    if (file.type.startsWith('audio/')) handleTranscribe(file);
+    else handleImportDocument(file);
+  };
+
+  const handleToggleDictation = () => {
+    const active = dictationRef.current;
+    if (active) {
+      active.session.stop();
+      return;
+    }
+    if (!isOnline) {
+      setStatus('Dictation Needs a Connection');
+      return;
+    }
+    const textarea = textareaRef.current;
+    const at = textarea ? textarea.selectionEnd : text.length;
+    const before = text.slice(0, at);
+    const after = text.slice(at);
+    // A gap before the text that follows, unless it starts with one or with punctuation.
+    const gap = /^[\s.,;:!?)]|^$/.test(after) ? '' : ' ';
+    const write = (spoken: string, interim: string) => {
+      const pending = appendPhrase(before + spoken, interim);
+      setText(before + spoken + pending + (spoken || pending ? gap : '') + after);
+    };
+    try {
+      const session = startDictation(voiceFor()?.lang || navigator.language, {
+        onInterim: interim => {
+          const state = dictationRef.current;
+          if (state) write(state.spoken, interim);
+        },
+        onFinal: phrase => {
+          const state = dictationRef.current;
+          if (!state) return;
+          state.spoken += appendPhrase(state.before + state.spoken, phrase);
+          write(state.spoken, '');
+        },
+        onError: message => setStatus(message),
+        onEnd: () => {
+          dictationRef.current = null;
+          setIsDictating(false);
+          setStatus(current => current === 'Listening...' ? 'Ready' : current);
+        },
+      });
+      dictationRef.current = { session, before, after, spoken: '' };
+      setIsDictating(true);
+      setStatus('Listening...');
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Dictation Unavailable');
+    }
+  };
+
+  useEffect(() => () => dictationRef.current?.session.stop(), []);
+
+  // The transcript goes in at the caret as its own paragraph. Clicking again
+  // while it runs cancels it.
+  const handleTranscribe = async (file: File) => {
+    if (!isOnline) {
+      setStatus('Transcription Needs a Connection');
+      return;
+    }
+    const controller = new AbortController();
+    transcribeAbortRef.current = controller;
+    setIsTranscribing(true);
+    setStatus('Transcribing...');
+    try {
+      const transcript = await transcribeAudio(file, {
+        signal: controller.signal,
+        onRetry: attempt => setStatus(`Retrying Transcription (${attempt})...`),
+      });
+      const textarea = textareaRef.current;
+      const at = textarea ? textarea.selectionEnd : text.length;
+      setText(prev => [prev.slice(0, at).trimEnd(), transcript, prev.slice(at).trimStart()].filter(Boolean).join('\n\n'));
+      if (!isDialogueMode && listSpeakers(parseDialogue(transcript)).length > 1) setIsDialogueMode(true);
+      setStatus('Transcribed');
+    } catch (err) {
+      if (isAbortError(err)) {
+        setStatus('Ready');
+        return;
+      }
+      console.error('Transcription error:', err);
+      setStatus(err instanceof Error ? err.message : 'Transcription Failed');
+    } finally {
+      if (transcribeAbortRef.current === controller) transcribeAbortRef.current = null;
+      setIsTranscribing(false);
+    }
+  };
+
+  const handleLoadBatch = async (file: File) => {
+    try {
+      const rows = parseBatchFile(file.name, await file.text());
+      batchBuffersRef.current.clear();
+      setBatchJobs(rows.map(row => ({ row, status: 'queued' })));
+      setStatus(`Loaded ${rows.length} Batch Row${rows.length === 1 ? '' : 's'}`);
+    } catch (err) {
+      console.error('Batch import error:', err);
+      setStatus(err instanceof Error ? err.message : 'Import Failed');
+    }
+  };
+
+  // Rows name voices by id or by display name.
+  const batchVoiceFor = (row: BatchRow) => {
+    const key = row.voice ?? selectedVoiceId;
+    const voice = findVoice(voices, key) ?? voices.find(v => v.name.toLowerCase() === key.toLowerCase());
+    return { key, voice, engine: voice && engines.find(e => e.id === voice.engine) };
+  };
+
+  // Browser voices only play through the speakers, so there is no buffer to
+  // collect; the batch is held back as a whole instead of failing row by row.
+  const liveBatchRows = batchJobs.filter(j => j.status !== 'done' && batchVoiceFor(j.row).engine?.capabilities.output === 'live').length;
+  const batchBlocker = liveBatchRows > 0
+    ? `${liveBatchRows} row${liveBatchRows === 1 ? ' uses' : 's use'} a browser voice, which can only play live. Select a cloned voice, or name one in a voice column.`
+    : null;
 
-    synthRef.current.speak(utterance);
+  // Rows render through the same chunking, markup, lexicon and engine calls
+  // as Generate, then take the export post-processing. Finished rows are kept,
+  // so running again only retries what failed or was cancelled.
+  const handleRunBatch = async () => {
+    if (batchBlocker) {
+      setStatus('Batch Needs a Cloned Voice');
+      return;
+    }
+    const controller = new AbortController();
+    batchAbortRef.current = controller;
+    setIsBatchRunning(true);
+    const ctx = await getAudioContext();
+    const patch = (id: string, update: Partial<BatchJob>) =>
+      setBatchJobs(prev => prev.map(j => j.row.id === id ? { ...j, ...update } : j));
+    const pending = batchJobs.filter(j => j.status !== 'done').map(j => j.row);
+    let done = 0;
+    let failed = 0;
+
+    await runBatch(pending, batchConcurrency, async row => {
+      const { key: voiceName, voice, engine } = batchVoiceFor(row);
+      if (!voice || !engine) {
+        failed++;
+        return patch(row.id, { status: 'error', error: `Unknown voice "${voiceName}"` });
+      }
+      if (!navigator.onLine && engine.capabilities.needsNetwork) {
+        failed++;
+        return patch(row.id, { status: 'error', error: 'Needs a connection' });
+      }
+      patch(row.id, { status: 'rendering', error: undefined });
+      try {
+        const target = { engine, voice, rate: row.rate ?? rate, pitch: row.pitch ?? pitch };
+        const rendered = await renderBatchRow(row.text, target, lexicon, ctx, controller.signal);
+        const buffer = await processRender(rendered, postProcess);
+        batchBuffersRef.current.set(row.id, buffer);
+        done++;
+        patch(row.id, { status: 'done', duration: buffer.duration });
+      } catch (err) {
+        if (isAbortError(err)) return patch(row.id, { status: 'queued' });
+        console.error(`Batch row ${row.id} failed:`, err);
+        failed++;
+        patch(row.id, { status: 'error', error: err instanceof Error ? err.message : 'Engine Error' });
+      }
+    }, controller.signal);
+
+    if (batchAbortRef.current === controller) batchAbortRef.current = null;
+    setIsBatchRunning(false);
+    setStatus(controller.signal.aborted ? 'Batch Cancelled' : `Batch: ${done} Rendered${failed > 0 ? `, ${failed} Failed` : ''}`);
   };
 
-  const allVoiceOptions = useMemo(() => {
-    const combined = [...voices];
-    clonedVoices.forEach(cv => {
-      combined.unshift({ voice: null, name: cv.name, lang: 'Digital Clone', isCloned: true });
+  const handleCancelBatch = () => batchAbortRef.current?.abort();
+
+  const handleDownloadBatch = async () => {
+    setStatus('Packing ZIP...');
+    try {
+      const blob = await buildBatchArchive(batchJobs, batchBuffersRef.current, batchFormat, { voice: voiceFor()?.name ?? '', rate, pitch });
+      downloadBlob(blob, makeExportFilename('batch', 'zip'));
+      setStatus('Ready');
+    } catch (err) {
+      console.error('Batch export error:', err);
+      setStatus('Export Failed');
+    }
+  };
+
+  const copyToClipboard = async (value: string, what: 'link' | 'script') => {
+    try {
+      await navigator.clipboard.writeText(value);
+      setCopied(what);
+      setTimeout(() => setCopied(prev => prev === what ? null : prev), 2000);
+    } catch (err) {
+      console.error('Clipboard error:', err);
+      setStatus('Copy Failed');
+    }
+  };
+
+  // Voices go in by name and language only; clone samples never leave this browser.
+  const handleCopyShareLink = async () => {
+    const sharedVoice = (id: string): SharedVoice => {
+      const voice = findVoice(voices, id);
+      return { name: voice?.name ?? id, lang: voice?.lang ?? '' };
+    };
+    const fragment = await encodeShareFragment({
+      text,
+      voice: selectedVoiceId ? sharedVoice(selectedVoiceId) : null,
+      rate,
+      pitch,
+      isDialogueMode,
+      cast: Object.fromEntries(Object.entries(cast).map(([speaker, s]) => [speaker, { voice: sharedVoice(s.voiceId), rate: s.rate, pitch: s.pitch }])),
     });
-    return combined;
-  }, [voices, clonedVoices]);
+    await copyToClipboard(window.location.origin + window.location.pathname + window.location.search + fragment, 'link');
+  };
+
+  const handleMusicUpload = async (file: File) => {
+    try {
+      const ctx = await getAudioContext();
+      const buffer = await ctx.decodeAudioData(await file.arrayBuffer());
+      stopPreview();
+      setMusicTrack({ name: file.name, buffer });
+    } catch (err) {
+      console.error('Music decode error:', err);
+      setStatus('Unsupported Audio File');
+    }
+  };
+
+  const updateMusicBed = (settings: MusicBedSettings) => {
+    setMusicBed(settings);
+    localStorage.setItem('voice_studio_v2_music', JSON.stringify(settings));
+  };
+
+  const updateLanguageSettings = (settings: LanguageSettings) => {
+    setLanguageSettings(settings);
+    localStorage.setItem('voice_studio_v2_languages', JSON.stringify(settings));
+  };
+
+  const updatePostProcess = (settings: PostProcessSettings) => {
+    setPostProcess(settings);
+    localStorage.setItem('voice_studio_v2_post', JSON.stringify(settings));
+  };
+
+  const updateSubtitleOptions = (options: SubtitleOptions) => {
+    setSubtitleOptions(options);
+    localStorage.setItem('voice_studio_v2_subtitles', JSON.stringify(options));
+  };
+
+  // Captions for the last render follow the exported file: silence trimmed
+  // from its start comes off the word times, and intro padding is added on.
+  const handleExportSubtitles = (timing: TimedWord[], label: string, format: SubtitleFormat, shift = 0) => {
+    const shifted = shift === 0 ? timing : timing
+      .filter(w => w.endTime > shift)
+      .map(w => ({ ...w, time: Math.max(0, w.time - shift), endTime: w.endTime - shift }));
+    const cues = buildCues(shifted, subtitleOptions);
+    if (cues.length === 0) return;
+    downloadBlob(formatSubtitles(cues, format), makeExportFilename(label, format));
+  };
+
+  const handleLoadHistory = (item: HistoryItem) => {
+    setText(item.text);
+    if (item.settings) {
+      // Entries saved before voice ids stored the voice name.
+      const legacy = item.settings as GenerationSettings & { voiceName?: string };
+      const itemCast = migrateCast(item.settings.cast);
+      setSelectedVoiceId(findVoice(voices, legacy.voiceId ?? legacy.voiceName)?.id ?? legacy.voiceId ?? legacy.voiceName ?? selectedVoiceId);
+      setRate(item.settings.rate);
+      setPitch(item.settings.pitch);
+      setIsDialogueMode(item.settings.isDialogueMode);
+      setCast(itemCast);
+      localStorage.setItem('voice_studio_v2_cast', JSON.stringify(itemCast));
+    } else {
+      const voice = findVoice(voices, item.voiceName.replace(/^Clone: /, ''));
+      if (voice) setSelectedVoiceId(voice.id);
+    }
+    setIsSidebarOpen(false);
+  };
+
+  const handleReplayHistory = async (item: HistoryItem) => {
+    handleStop();
+    try {
+      const buffer = await loadRender(item.id);
+      if (!buffer) {
+        setStatus('Audio Not Cached');
+        return;
+      }
+      handleLoadHistory(item);
+      autoplayRenderRef.current = true;
+      setLastRender({ buffer, label: item.text, createdAt: item.timestamp, timing: item.timing });
+    } catch (err) {
+      console.error('Render cache error:', err);
+      setStatus('Replay Failed');
+    }
+  };
+
+  const handleUpdateHistory = (items: HistoryItem[]) => {
+    const byId = new Map(items.map(i => [i.id, i]));
+    setHistory(prev => prev.map(h => byId.get(h.id) ?? h));
+    updateHistoryItems(items).catch(err => console.error('History save error:', err));
+  };
+
+  const handleDeleteHistory = (ids: string[]) => {
+    const removed = new Set(ids);
+    setHistory(prev => prev.filter(h => !removed.has(h.id)));
+    deleteHistoryItems(ids).catch(err => console.error('History delete error:', err));
+  };
+
+  const handleExportHistory = (items: HistoryItem[]) => {
+    downloadBlob(exportHistory(items), makeExportFilename('script-archive', 'json'));
+  };
+
+  const handleSaveClone = async (voice: ClonedVoice) => {
+    const named = { ...voice, name: uniqueCloneName(voice.name, new Set(clonedVoices.map(v => v.name))), createdAt: Date.now() };
+    setClonedVoices(prev => [named, ...prev]);
+    setSelectedVoiceId(cloneVoiceId(named));
+    try {
+      await saveClone(named);
+      setStatus('Voice Ready');
+    } catch (err) {
+      console.error('Clone save error:', err);
+      setStatus('Voice Not Saved');
+    }
+  };
+
+  const handleRenameClone = async (voice: ClonedVoice, name: string) => {
+    const unique = uniqueCloneName(name, new Set(clonedVoices.filter(v => v.id !== voice.id).map(v => v.name)));
+    // Selections hold the clone's id, so they follow the rename on their own.
+    setClonedVoices(prev => prev.map(v => v.id === voice.id ? { ...v, name: unique } : v));
+    await renameClone(voice.id, unique).catch(err => console.error('Clone rename error:', err));
+  };
+
+  const handleDeleteClone = async (voice: ClonedVoice) => {
+    if (!confirm(`Delete the cloned voice "${voice.name}"?`)) return;
+    setClonedVoices(prev => prev.filter(v => v.id !== voice.id));
+    if (selectedVoiceId === cloneVoiceId(voice)) {
+      const others = voices.filter(v => v.id !== selectedVoiceId);
+      const fallback = others.find(v => v.lang.startsWith('en-US')) || others[0];
+      setSelectedVoiceId(fallback?.id || '');
+    }
+    await deleteClone(voice.id).catch(err => console.error('Clone delete error:', err));
+  };
+
+  const handleExportClones = (list: ClonedVoice[]) => {
+    const label = list.length === 1 ? list[0].name : 'voice-profiles';
+    downloadBlob(exportCloneProfile(list), makeExportFilename(label, 'voice.json'));
+  };
+
+  const handleImportClones = async (file: File) => {
+    try {
+      const imported = await importCloneProfile(file, clonedVoices);
+      setClonedVoices(prev => [...imported, ...prev]);
+      setSelectedVoiceId(cloneVoiceId(imported[0]));
+      setStatus(`Imported ${imported.length} Voice${imported.length === 1 ? '' : 's'}`);
+    } catch (err) {
+      console.error('Profile import error:', err);
+      setStatus(err instanceof Error ? err.message : 'Import Failed');
+    }
+  };
 
   return (
     <div className={`min-h-screen flex flex-col transition-all duration-500 ${isFocusMode ? 'bg-slate-950' : 'bg-slate-50'}`}>
@@ -355,6 +1321,24 @@ export default function App() {
         </div>
         
         <div className="flex items-center gap-3">
+          <NetworkStatus
+            isOnline={isOnline}
+            queue={renderQueue}
+            isRendering={isRenderingQueue}
+            onDiscard={handleDiscardQueued}
+          />
+          <button
+            onClick={() => setIsBatchOpen(true)}
+            className="px-3 py-1.5 bg-white border border-slate-100 text-slate-500 rounded-lg text-[11px] font-black flex items-center gap-1.5 hover:bg-slate-50 transition-all shadow-sm"
+          >
+            <ListChecks size={14} /> BATCH
+          </button>
+          <button
+            onClick={() => setIsLexiconOpen(true)}
+            className="px-3 py-1.5 bg-white border border-slate-100 text-slate-500 rounded-lg text-[11px] font-black flex items-center gap-1.5 hover:bg-slate-50 transition-all shadow-sm"
+          >
+            <BookA size={14} /> LEXICON
+          </button>
           <button 
             onClick={() => setIsCloneModalOpen(true)}
             className="px-3 py-1.5 bg-white border border-indigo-100 text-indigo-600 rounded-lg text-[11px] font-black flex items-center gap-1.5 hover:bg-indigo-50 transition-all shadow-sm"
@@ -372,14 +1356,113 @@ export default function App() {
         
         {/* Editor Area */}
         <div className="lg:col-span-8 space-y-6">
-          <div className={`bg-white border rounded-[2rem] shadow-pro overflow-hidden transition-all duration-500 ${isFocusMode ? 'border-slate-800 bg-slate-900 ring-4 ring-indigo-500/10' : 'border-slate-100'}`}>
+          <div
+            onDragOver={(e) => {
+              if (!e.dataTransfer.types.includes('Files')) return;
+              e.preventDefault();
+              setIsDraggingFile(true);
+            }}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFile(false);
+            }}
+            onDrop={handleEditorDrop}
+            className={`bg-white border rounded-[2rem] shadow-pro overflow-hidden transition-all duration-500 ${isDraggingFile ? 'border-indigo-400 ring-4 ring-indigo-500/20' : isFocusMode ? 'border-slate-800 bg-slate-900 ring-4 ring-indigo-500/10' : 'border-slate-100'}`}
+          >
             <div className="p-4 border-b flex items-center justify-between border-slate-50">
               <div className="flex items-center gap-2">
                 <div className={`w-1.5 h-1.5 rounded-full ${isPlaying ? 'bg-indigo-500 animate-pulse' : 'bg-slate-200'}`}></div>
                 <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{status}</span>
               </div>
               <div className="flex items-center gap-3">
-                <Visualizer isPlaying={isPlaying} />
+                <Visualizer analyser={analyser} isPlaying={isPlaying || isPreviewing || isMixPreviewing} />
+                <input
+                  ref={documentInputRef}
+                  type="file"
+                  accept={DOCUMENT_ACCEPT}
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleImportDocument(file);
+                    e.target.value = '';
+                  }}
+                />
+                <input
+                  ref={audioInputRef}
+                  type="file"
+                  accept="audio/*"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleTranscribe(file);
+                    e.target.value = '';
+                  }}
+                />
+                <button
+                  onClick={handleCopyShareLink}
+                  title="Copy a link to this script and its voice settings"
+                  className="p-2 hover:bg-slate-50 rounded-lg text-slate-400 transition-colors"
+                >
+                  {copied === 'link' ? <Check size={16} className="text-emerald-500" /> : <Share2 size={16} />}
+                </button>
+                <button
+                  onClick={() => copyToClipboard(text, 'script')}
+                  disabled={!text}
+                  title="Copy script"
+                  className="p-2 hover:bg-slate-50 rounded-lg text-slate-400 transition-colors"
+                >
+                  {copied === 'script' ? <Check size={16} className="text-emerald-500" /> : <Copy size={16} />}
+                </button>
+                <button
+                  onClick={() => documentInputRef.current?.click()}
+                  disabled={isPlaying}
+                  title="Import document (TXT, Markdown, DOCX, PDF, EPUB), or drop a file on the editor"
+                  className="p-2 hover:bg-slate-50 rounded-lg text-slate-400 transition-colors"
+                >
+                  <FileUp size={16} />
+                </button>
+                {isDictationSupported() && (
+                  <button
+                    onClick={handleToggleDictation}
+                    disabled={isPlaying || isTranscribing || (!isOnline && !isDictating)}
+                    title={isDictating ? 'Stop dictation' : isOnline ? 'Dictate into the editor' : 'Dictation needs a connection'}
+                    className={`p-2 rounded-lg transition-colors ${isDictating ? 'bg-red-50 text-red-500 animate-pulse' : 'hover:bg-slate-50 text-slate-400'}`}
+                  >
+                    <Mic size={16} />
+                  </button>
+                )}
+                <button
+                  onClick={() => isTranscribing ? transcribeAbortRef.current?.abort() : audioInputRef.current?.click()}
+                  disabled={isPlaying || isDictating || (!isOnline && !isTranscribing)}
+                  title={isTranscribing ? 'Cancel transcription' : isOnline ? 'Transcribe an audio file into the editor, or drop one on it' : 'Transcription needs a connection'}
+                  className={`p-2 rounded-lg transition-colors ${isTranscribing ? 'bg-indigo-50 text-indigo-600' : 'hover:bg-slate-50 text-slate-400'}`}
+                >
+                  {isTranscribing ? <RefreshCw size={16} className="animate-spin" /> : <AudioLines size={16} />}
+                </button>
+                {importedDoc && (
+                  <button
+                    onClick={() => setIsChapterPickerOpen(true)}
+                    disabled={isPlaying}
+                    title={`Chapters in ${importedDoc.name}`}
+                    className="p-2 hover:bg-slate-50 rounded-lg text-slate-400 transition-colors"
+                  >
+                    <ListTree size={16} />
+                  </button>
+                )}
+                <button
+                  onClick={() => setIsReadAlong(!isReadAlong)}
+                  title="Read-along view"
+                  className={`p-2 rounded-lg transition-colors ${isReadAlong ? 'bg-indigo-50 text-indigo-600' : 'hover:bg-slate-50 text-slate-400'}`}
+                >
+                  <BookOpenText size={16} />
+                </button>
+                <button
+                  onClick={() => setIsDialogueMode(!isDialogueMode)}
+                  disabled={isPlaying}
+                  title="Dialogue script mode"
+                  className={`p-2 rounded-lg transition-colors ${isDialogueMode ? 'bg-indigo-50 text-indigo-600' : 'hover:bg-slate-50 text-slate-400'}`}
+                >
+                  <Users size={16} />
+                </button>
                 <button 
                   onClick={() => setIsFocusMode(!isFocusMode)}
                   className="p-2 hover:bg-slate-50 rounded-lg text-slate-400"
@@ -388,13 +1471,65 @@ export default function App() {
                 </button>
               </div>
             </div>
+            {isPlaying && sentences.length > 1 && (
+              <ChunkProgress sentences={sentences} activeChunk={activeChunk} onSeek={handleSeek} />
+            )}
             
-            <textarea 
-              value={text}
-              onChange={(e) => setText(e.target.value)}
-              placeholder="Paste text or type a script..."
-              className={`w-full h-80 p-8 text-lg font-medium resize-none border-none focus:ring-0 outline-none placeholder:text-slate-200 transition-colors ${isFocusMode ? 'bg-slate-900 text-slate-100' : 'text-slate-800'}`}
-            />
+            {isReadAlong ? (
+              <ReadAlongView
+                text={text}
+                words={words}
+                hiddenRanges={hiddenRanges}
+                activeWord={activeWord}
+                activeSentence={activeSentence}
+                isFocusMode={isFocusMode}
+                onWordClick={handleWordClick}
+              />
+            ) : (
+              <HighlightedTextarea
+                value={text}
+                onChange={setText}
+                readOnly={isDictating}
+                textareaRef={textareaRef}
+                highlights={[
+                  ...markup.errors.map(e => ({ start: e.start, end: e.end, className: 'bg-red-200/70', title: e.message })),
+                  ...foreignSpans.map(span => ({ start: span.start, end: span.end, className: languageTint(span.lang) })),
+                ]}
+                placeholder={isDialogueMode ? 'ALEX: Welcome back to the show.\nSAM: Thanks for having me...' : 'Paste text, type or dictate a script, or drop a document or recording...'}
+                className="w-full h-80 p-8 text-lg font-medium resize-none border-none focus:ring-0 outline-none placeholder:text-slate-200"
+                textClassName={`transition-colors ${isFocusMode ? 'text-slate-100' : 'text-slate-800'}`}
+              />
+            )}
+
+            {!isReadAlong && foreignSpans.length > 0 && (
+              <LanguageSpanList
+                spans={foreignSpans.map(span => ({
+                  span,
+                  voiceName: (isForeign(span.lang, span.speaker)
+                    ? voiceForLanguage(voices, span.lang, languageSettings.voices)
+                    : voiceFor(span.speaker))?.name ?? null,
+                }))}
+                text={text}
+                onFocus={span => selectTextRange(span.start, span.end)}
+                onChange={(span, lang) => setText(markLanguage(text, span, lang))}
+                onMarkSelection={handleMarkSelection}
+              />
+            )}
+
+            {markup.errors.length > 0 && (
+              <ul className="px-6 py-3 border-t border-red-50 bg-red-50/40 space-y-1 max-h-28 overflow-y-auto">
+                {markup.errors.map((err, i) => (
+                  <li key={i}>
+                    <button
+                      onClick={() => selectTextRange(err.start, err.end)}
+                      className="text-left text-[11px] font-bold text-red-500 hover:underline"
+                    >
+                      Line {text.slice(0, err.start).split('\n').length}: {err.message}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
 
             <div className="p-6 border-t border-slate-50 bg-slate-50/30 flex items-center gap-4">
               <button 
@@ -405,6 +1540,14 @@ export default function App() {
                 {isPlaying ? <RefreshCw className="animate-spin" size={16} /> : <Play fill="currentColor" size={16} />}
                 {isPlaying ? 'ENGINE ACTIVE...' : 'GENERATE AUDIO'}
               </button>
+              {isPlaying && (
+                <button
+                  onClick={handlePauseToggle}
+                  className="w-14 h-14 border border-slate-200 rounded-2xl flex items-center justify-center text-slate-400 hover:bg-white hover:text-indigo-600 transition-all active:scale-95"
+                >
+                  {isPaused ? <Play size={20} fill="currentColor" /> : <Pause size={20} fill="currentColor" />}
+                </button>
+              )}
               <button 
                 onClick={handleStop}
                 className="w-14 h-14 border border-slate-200 rounded-2xl flex items-center justify-center text-slate-300 hover:bg-white hover:text-red-500 transition-all active:scale-95"
@@ -412,6 +1555,48 @@ export default function App() {
                 <Square size={20} fill="currentColor" />
               </button>
             </div>
+
+            {lastRender && (
+              <div className="px-6 py-4 border-t border-slate-50 space-y-3">
+                <WaveformOverview buffer={lastRender.buffer} position={previewPosition} onSeek={handleRenderSeek} />
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <button
+                      onClick={() => isPreviewing ? stopPreview() : playRender(previewPosition ?? 0)}
+                      disabled={isPlaying}
+                      className="w-9 h-9 shrink-0 border border-slate-200 rounded-xl flex items-center justify-center text-slate-400 hover:text-indigo-600 disabled:opacity-50 transition-all"
+                    >
+                      {isPreviewing ? <Pause size={14} fill="currentColor" /> : <Play size={14} fill="currentColor" />}
+                    </button>
+                    <div className="min-w-0">
+                      <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">Last Render</p>
+                      <p className="text-[11px] font-bold text-slate-600 truncate">
+                        {lastRender.buffer.duration.toFixed(1)}s · {lastRender.buffer.sampleRate / 1000} kHz
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {lastRender.timing && lastRender.timing.length > 0 && (
+                      <SubtitleExport
+                        options={subtitleOptions}
+                        onOptionsChange={updateSubtitleOptions}
+                        onExport={format => handleExportSubtitles(lastRender.timing!, lastRender.label, format, leadingTrim(lastRender.buffer, postProcess) - (isMixing ? musicBed.introPad : 0))}
+                      />
+                    )}
+                    {(['wav', 'mp3'] as ExportFormat[]).map(format => (
+                      <button
+                        key={format}
+                        onClick={() => handleExport(format)}
+                        disabled={isExporting}
+                        className="px-3 py-2 bg-white border border-slate-200 hover:border-indigo-200 hover:text-indigo-600 disabled:opacity-50 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-500 flex items-center gap-1.5 transition-all"
+                      >
+                        <Download size={12} /> {format}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
           </div>
         </div>
 
@@ -425,15 +1610,15 @@ export default function App() {
             <div className="space-y-4">
               <div className="space-y-2">
                 <label className="text-[10px] font-black text-slate-400 uppercase ml-1">Voice Profile</label>
-                <select 
-                  value={selectedVoice}
-                  onChange={(e) => setSelectedVoice(e.target.value)}
-                  className="w-full h-11 px-3 bg-slate-50 border border-slate-100 rounded-xl font-bold text-[11px] outline-none focus:ring-2 ring-indigo-500/10 cursor-pointer transition-all"
-                >
-                  {allVoiceOptions.map(v => (
-                    <option key={v.name} value={v.name}>{v.isCloned ? '✨ Clone: ' : ''}{v.name}</option>
-                  ))}
-                </select>
+                <VoicePicker
+                  voices={voices}
+                  isOffline={!isOnline}
+                  selectedId={selectedVoiceId}
+                  favorites={favoriteVoices}
+                  onSelect={setSelectedVoiceId}
+                  onToggleFavorite={handleToggleFavoriteVoice}
+                  onPreview={handlePreviewVoice}
+                />
               </div>
 
               <div className="space-y-2">
@@ -463,9 +1648,62 @@ export default function App() {
                   className="w-full h-1.5 appearance-none bg-slate-100 rounded-lg cursor-pointer accent-indigo-600" 
                 />
               </div>
+
+              {isTabCaptureSupported() && (
+                <label className="flex items-center justify-between gap-3 px-1 cursor-pointer">
+                  <span className="text-[10px] font-black text-slate-400 uppercase">Record Browser Voice</span>
+                  <input
+                    type="checkbox"
+                    checked={captureBrowserVoice}
+                    onChange={(e) => setCaptureBrowserVoice(e.target.checked)}
+                    className="w-4 h-4 accent-indigo-600 cursor-pointer"
+                  />
+                </label>
+              )}
             </div>
           </div>
 
+          <PostProcessPanel settings={postProcess} onChange={updatePostProcess} />
+
+          <MusicBedPanel
+            track={musicTrack}
+            settings={musicBed}
+            onChange={updateMusicBed}
+            onUpload={handleMusicUpload}
+            onRemove={() => { stopPreview(); setMusicTrack(null); }}
+            canPreview={!!lastRender}
+            isPreviewing={isMixPreviewing}
+            onTogglePreview={() => isMixPreviewing ? stopPreview() : playMix()}
+          />
+
+          <LanguagePanel
+            settings={languageSettings}
+            onChange={updateLanguageSettings}
+            languages={foreignLanguages}
+            voices={voices}
+            autoVoiceFor={lang => voiceForLanguage(voices, lang, {})}
+          />
+
+          {isDialogueMode && (
+            <SpeakerCast
+              speakers={speakers}
+              cast={cast}
+              voiceOptions={voices}
+              defaults={{ voiceId: selectedVoiceId, rate, pitch }}
+              onChange={handleCastChange}
+            />
+          )}
+
+          <ClonedVoiceList
+            voices={clonedVoices}
+            selectedVoiceId={selectedVoiceId}
+            onSelect={setSelectedVoiceId}
+            onRename={handleRenameClone}
+            onDelete={handleDeleteClone}
+            onExport={handleExportClones}
+            onImport={handleImportClones}
+          />
+
           <div className="bg-gradient-to-br from-indigo-600 to-indigo-800 p-6 rounded-3xl text-white shadow-xl shadow-indigo-100 relative overflow-hidden group">
             <div className="absolute -right-4 -bottom-4 opacity-10 group-hover:scale-110 transition-transform">
               <Wand2 size={96} />
@@ -480,52 +1718,57 @@ export default function App() {
         </div>
       </main>
 
-      {/* History Drawer */}
-      <div className={`fixed inset-y-0 right-0 w-80 bg-white shadow-2xl z-[150] transition-transform duration-300 border-l border-slate-100 ${isSidebarOpen ? 'translate-x-0' : 'translate-x-full'}`}>
-        <div className="h-full flex flex-col p-6">
-          <div className="flex items-center justify-between mb-8">
-            <h3 className="text-sm font-black text-slate-900 flex items-center gap-2 uppercase tracking-tight">
-              <History size={16} className="text-indigo-600" /> Script Archive
-            </h3>
-            <button onClick={() => setIsSidebarOpen(false)} className="p-2 hover:bg-slate-50 rounded-lg"><X size={18} /></button>
-          </div>
-          <div className="flex-grow overflow-y-auto space-y-3">
-            {history.length === 0 ? (
-              <p className="text-center py-20 text-[10px] font-bold text-slate-300 uppercase">Vault empty</p>
-            ) : (
-              history.map((item) => (
-                <div 
-                  key={item.id} 
-                  className="group p-4 rounded-2xl border border-slate-50 hover:border-indigo-100 hover:bg-indigo-50/20 transition-all cursor-pointer relative"
-                  onClick={() => { setText(item.text); setSelectedVoice(item.voiceName); setIsSidebarOpen(false); }}
-                >
-                  <div className="flex justify-between items-center mb-1">
-                    <span className="text-[9px] font-bold text-slate-300 uppercase">
-                      {new Date(item.timestamp).toLocaleTimeString()}
-                    </span>
-                    <button 
-                      onClick={(e) => { e.stopPropagation(); setHistory(prev => prev.filter(h => h.id !== item.id)); }}
-                      className="text-slate-200 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all"
-                    >
-                      <Trash2 size={12} />
-                    </button>
-                  </div>
-                  <p className="text-[11px] font-bold text-slate-700 line-clamp-2">{item.text}</p>
-                </div>
-              ))
-            )}
-          </div>
-        </div>
-      </div>
+      <HistoryDrawer
+        isOpen={isSidebarOpen}
+        onClose={() => setIsSidebarOpen(false)}
+        items={history}
+        onLoad={handleLoadHistory}
+        onReplay={handleReplayHistory}
+        onUpdate={handleUpdateHistory}
+        onDelete={handleDeleteHistory}
+        onExport={handleExportHistory}
+        onExportSubtitles={(item, format) => handleExportSubtitles(item.timing ?? [], item.text, format)}
+      />
 
       <CloneVoiceModal 
         isOpen={isCloneModalOpen} 
         onClose={() => setIsCloneModalOpen(false)} 
-        onSave={(v) => {
-          setClonedVoices(prev => [v, ...prev]);
-          setSelectedVoice(v.name);
-          setStatus('Voice Ready');
-        }}
+        onSave={handleSaveClone}
+      />
+
+      <BatchModal
+        isOpen={isBatchOpen}
+        onClose={() => setIsBatchOpen(false)}
+        jobs={batchJobs}
+        isRunning={isBatchRunning}
+        concurrency={batchConcurrency}
+        onConcurrencyChange={setBatchConcurrency}
+        format={batchFormat}
+        onFormatChange={setBatchFormat}
+        onLoad={handleLoadBatch}
+        onStart={handleRunBatch}
+        onCancel={handleCancelBatch}
+        onDownload={handleDownloadBatch}
+        blocker={batchBlocker}
+      />
+
+      <ChapterPicker
+        document={importedDoc}
+        isOpen={isChapterPickerOpen}
+        activeIndex={activeSection}
+        onClose={() => setIsChapterPickerOpen(false)}
+        onSelect={handleSelectSection}
+      />
+
+      <LexiconModal
+        isOpen={isLexiconOpen}
+        onClose={() => setIsLexiconOpen(false)}
+        entries={lexicon}
+        languages={Array.from(new Set(voices.map(v => v.lang).filter(Boolean))).sort()}
+        onChange={updateLexicon}
+        onPreview={handlePreviewEntry}
+        onImport={handleImportLexicon}
+        onExport={handleExportLexicon}
       />
     </div>
   );
@@ -0,0 +1,149 @@
+import React, { useRef } from 'react';
+import { ListChecks, X, Upload, Play, Square, Download, RefreshCw } from 'lucide-react';
+import { BatchJob, BatchStatus, ExportFormat } from '../types';
+
+const STATUS_STYLES: Record<BatchStatus, string> = {
+  queued: 'bg-slate-100 text-slate-400',
+  rendering: 'bg-indigo-50 text-indigo-600',
+  done: 'bg-emerald-50 text-emerald-600',
+  error: 'bg-red-50 text-red-500',
+};
+
+const BatchModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  jobs: BatchJob[];
+  isRunning: boolean;
+  concurrency: number;
+  onConcurrencyChange: (value: number) => void;
+  format: ExportFormat;
+  onFormatChange: (format: ExportFormat) => void;
+  onLoad: (file: File) => void;
+  onStart: () => void;
+  onCancel: () => void;
+  onDownload: () => void;
+  // Why the remaining rows can't render, shown in place of Start.
+  blocker: string | null;
+}> = ({ isOpen, onClose, jobs, isRunning, concurrency, onConcurrencyChange, format, onFormatChange, onLoad, onStart, onCancel, onDownload, blocker }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (!isOpen) return null;
+
+  const count = (status: BatchStatus) => jobs.filter(j => j.status === status).length;
+  const done = count('done');
+  const failed = count('error');
+  const buttonClass = 'px-3 py-2 bg-white border border-slate-200 hover:text-indigo-600 disabled:opacity-50 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-500 flex items-center gap-1.5 transition-all';
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl p-8 max-w-3xl w-full max-h-[85vh] flex flex-col shadow-2xl animate-in zoom-in-95 duration-200">
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+            <ListChecks className="text-indigo-600" size={24} />
+            Batch Render
+          </h3>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors"><X size={20} /></button>
+        </div>
+        <p className="text-[11px] font-bold text-slate-400 mb-4">
+          CSV or JSON rows of id, text, voice, rate, pitch. Blank fields use the current voice settings.
+        </p>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div className="flex items-center gap-2">
+            <button onClick={() => fileInputRef.current?.click()} disabled={isRunning} className={buttonClass}>
+              <Upload size={12} /> Load File
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onLoad(file);
+                e.target.value = '';
+              }}
+            />
+            <label className="flex items-center gap-2 text-[10px] font-black text-slate-400 uppercase">
+              Parallel
+              <input
+                type="number"
+                min={1} max={8}
+                value={concurrency}
+                disabled={isRunning}
+                onChange={(e) => onConcurrencyChange(Math.min(8, Math.max(1, parseInt(e.target.value) || 1)))}
+                className="w-12 h-8 px-2 bg-slate-50 border border-slate-100 rounded-lg text-[11px] font-bold outline-none"
+              />
+            </label>
+            <select
+              value={format}
+              onChange={(e) => onFormatChange(e.target.value as ExportFormat)}
+              className="h-8 px-2 bg-slate-50 border border-slate-100 rounded-lg text-[10px] font-black uppercase outline-none cursor-pointer"
+            >
+              <option value="wav">WAV</option>
+              <option value="mp3">MP3</option>
+            </select>
+          </div>
+          <div className="flex items-center gap-2">
+            {isRunning ? (
+              <button onClick={onCancel} className={buttonClass}>
+                <Square size={12} fill="currentColor" /> Cancel
+              </button>
+            ) : (
+              <button
+                onClick={onStart}
+                disabled={jobs.length === 0 || done === jobs.length || !!blocker}
+                title={blocker ?? undefined}
+                className="px-3 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center gap-1.5 transition-all"
+              >
+                <Play size={12} fill="currentColor" /> {done + failed > 0 ? 'Render Remaining' : 'Render All'}
+              </button>
+            )}
+            <button onClick={onDownload} disabled={isRunning || done === 0} className={buttonClass}>
+              <Download size={12} /> ZIP
+            </button>
+          </div>
+        </div>
+
+        {blocker && !isRunning && (
+          <p className="mb-3 px-3 py-2 bg-amber-50 border border-amber-100 rounded-xl text-[11px] font-bold text-amber-600">{blocker}</p>
+        )}
+
+        {jobs.length > 0 && (
+          <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">
+            {done}/{jobs.length} done{failed > 0 ? ` · ${failed} failed` : ''}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto">
+          {jobs.length === 0 ? (
+            <div className="py-12 text-center text-[11px] font-bold text-slate-300">No batch loaded</div>
+          ) : (
+            <table className="w-full text-left">
+              <tbody>
+                {jobs.map(job => (
+                  <tr key={job.row.id} className="border-b border-slate-50 align-top">
+                    <td className="py-2 pr-3 text-[11px] font-black text-slate-700 whitespace-nowrap">{job.row.id}</td>
+                    <td className="py-2 pr-3">
+                      <p className="text-[11px] text-slate-600 line-clamp-2">{job.row.text}</p>
+                      {job.error && <p className="text-[10px] font-bold text-red-500 mt-0.5">{job.error}</p>}
+                    </td>
+                    <td className="py-2 pr-3 text-[10px] font-bold text-slate-400 whitespace-nowrap">{job.row.voice ?? 'Default'}</td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-[9px] font-black uppercase ${STATUS_STYLES[job.status]}`}>
+                        {job.status === 'rendering' && <RefreshCw size={9} className="animate-spin" />}
+                        {job.status === 'done' && job.duration !== undefined ? `${job.duration.toFixed(1)}s` : job.status}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchModal;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { ListTree, X } from 'lucide-react';
+import { ImportedDocument } from '../types';
+
+const ChapterPicker: React.FC<{
+  document: ImportedDocument | null;
+  isOpen: boolean;
+  activeIndex: number;
+  onClose: () => void;
+  onSelect: (index: number) => void;
+}> = ({ document, isOpen, activeIndex, onClose, onSelect }) => {
+  if (!isOpen || !document) return null;
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl p-8 max-w-lg w-full max-h-[85vh] flex flex-col shadow-2xl animate-in zoom-in-95 duration-200">
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+            <ListTree className="text-indigo-600" size={24} />
+            Chapters
+          </h3>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors"><X size={20} /></button>
+        </div>
+        <p className="text-[11px] font-bold text-slate-400 mb-4 truncate">
+          {document.name} · {document.sections.length} sections. Loading one replaces the editor text.
+        </p>
+
+        <ul className="flex-1 overflow-y-auto space-y-2 pr-1">
+          {document.sections.map((section, i) => {
+            const words = section.text.split(/\s+/).filter(Boolean).length;
+            return (
+              <li key={i}>
+                <button
+                  onClick={() => onSelect(i)}
+                  className={`w-full text-left p-3 rounded-xl border transition-all ${i === activeIndex ? 'border-indigo-200 bg-indigo-50' : 'border-slate-100 hover:border-indigo-100 hover:bg-slate-50'}`}
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="text-[12px] font-bold text-slate-800 truncate">{section.title}</span>
+                    <span className="text-[9px] font-black text-slate-400 uppercase shrink-0">{words.toLocaleString()} words</span>
+                  </div>
+                  <p className="text-[11px] text-slate-400 line-clamp-2 mt-1">{section.text.slice(0, 160)}</p>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default ChapterPicker;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Sentence, TextChunk } from '../utils/segmenter';
+
+// One segment per sentence, sized by length. Clicking a segment seeks there.
+const ChunkProgress: React.FC<{
+  sentences: Sentence[];
+  activeChunk: TextChunk | null;
+  onSeek: (sentenceIndex: number) => void;
+}> = ({ sentences, activeChunk, onSeek }) => {
+  if (sentences.length === 0) return null;
+
+  return (
+    <div className="px-4 pb-3 flex items-stretch gap-px h-4">
+      {sentences.map(s => {
+        const isActive = !!activeChunk && s.index >= activeChunk.firstSentence && s.index <= activeChunk.lastSentence;
+        const isDone = !!activeChunk && s.index < activeChunk.firstSentence;
+        return (
+          <button
+            key={s.index}
+            title={s.text}
+            onClick={() => onSeek(s.index)}
+            style={{ flexGrow: Math.max(4, s.text.length) }}
+            className="group relative basis-0 min-w-[3px] flex items-center"
+          >
+            <span className={`w-full h-1.5 rounded-full transition-all group-hover:h-2.5 ${isActive ? 'bg-indigo-400 animate-pulse' : isDone ? 'bg-indigo-600' : 'bg-slate-200 group-hover:bg-indigo-200'}`} />
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ChunkProgress;
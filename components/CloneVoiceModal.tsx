@@ -0,0 +1,319 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Mic2, X, Upload, Check, Zap, RefreshCw, Square, Play, Trash2 } from 'lucide-react';
+import { ClonedVoice } from '../types';
+import { decodeAudioBlob, trimSilence, encodeWav, blobToBase64 } from '../utils/audio';
+import { MicRecording, startMicRecording, readLevel } from '../utils/microphone';
+
+const MIN_RECORD_SECONDS = 5;
+const MAX_RECORD_SECONDS = 30;
+const COUNTDOWN_SECONDS = 3;
+
+type SampleSource = 'upload' | 'record';
+type RecordPhase = 'idle' | 'countdown' | 'recording' | 'processing' | 'review';
+
+const CloneVoiceModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (voice: ClonedVoice) => void;
+}> = ({ isOpen, onClose, onSave }) => {
+  const [name, setName] = useState('');
+  const [source, setSource] = useState<SampleSource>('upload');
+  const [audioFile, setAudioFile] = useState<File | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const [phase, setPhase] = useState<RecordPhase>('idle');
+  const [countdown, setCountdown] = useState(COUNTDOWN_SECONDS);
+  const [elapsed, setElapsed] = useState(0);
+  const [level, setLevel] = useState(0);
+  const [recordedSample, setRecordedSample] = useState<Blob | null>(null);
+  const [recordedUrl, setRecordedUrl] = useState<string | null>(null);
+  const [recordError, setRecordError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const recordingRef = useRef<MicRecording | null>(null);
+  const timerRef = useRef<number | null>(null);
+  const meterRef = useRef<number | null>(null);
+  const startedAtRef = useRef(0);
+  // Bumped whenever a take is dropped, so a microphone that opens afterwards is released.
+  const takeRef = useRef(0);
+
+  const clearTimers = () => {
+    if (timerRef.current !== null) clearInterval(timerRef.current);
+    if (meterRef.current !== null) cancelAnimationFrame(meterRef.current);
+    timerRef.current = null;
+    meterRef.current = null;
+  };
+
+  const discardRecording = () => {
+    takeRef.current++;
+    clearTimers();
+    recordingRef.current?.cancel();
+    recordingRef.current = null;
+    setPhase('idle');
+    setElapsed(0);
+    setLevel(0);
+    setRecordedSample(null);
+  };
+
+  useEffect(() => {
+    if (!recordedSample) {
+      setRecordedUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(recordedSample);
+    setRecordedUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [recordedSample]);
+
+  // Release the microphone if the modal is closed mid-take.
+  useEffect(() => {
+    if (!isOpen) discardRecording();
+    return () => { takeRef.current++; clearTimers(); recordingRef.current?.cancel(); };
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const finishRecording = async () => {
+    const recording = recordingRef.current;
+    if (!recording) return;
+    clearTimers();
+    recordingRef.current = null;
+    setLevel(0);
+    setPhase('processing');
+
+    try {
+      const raw = await recording.stop();
+      const trimmed = trimSilence(await decodeAudioBlob(raw));
+      if (trimmed.duration < MIN_RECORD_SECONDS) {
+        setRecordError(`Only ${trimmed.duration.toFixed(1)}s of speech detected. Record at least ${MIN_RECORD_SECONDS}s.`);
+        setPhase('idle');
+        return;
+      }
+      setRecordedSample(encodeWav(trimmed));
+      setPhase('review');
+    } catch (err) {
+      console.error('Recording decode error:', err);
+      setRecordError('Could not process the recording.');
+      setPhase('idle');
+    }
+  };
+
+  const beginRecording = async () => {
+    const take = takeRef.current;
+    try {
+      const recording = await startMicRecording();
+      if (take !== takeRef.current) {
+        recording.cancel();
+        return;
+      }
+      recordingRef.current = recording;
+    } catch (err) {
+      if (take !== takeRef.current) return;
+      console.error('Microphone error:', err);
+      setRecordError('Microphone access was denied.');
+      setPhase('idle');
+      return;
+    }
+
+    setPhase('recording');
+    startedAtRef.current = Date.now();
+    timerRef.current = window.setInterval(() => {
+      const seconds = (Date.now() - startedAtRef.current) / 1000;
+      setElapsed(seconds);
+      if (seconds >= MAX_RECORD_SECONDS) finishRecording();
+    }, 100);
+
+    const scratch = new Float32Array(recordingRef.current!.analyser.fftSize);
+    const tick = () => {
+      if (!recordingRef.current) return;
+      setLevel(Math.min(1, readLevel(recordingRef.current.analyser, scratch) * 4));
+      meterRef.current = requestAnimationFrame(tick);
+    };
+    tick();
+  };
+
+  const startCountdown = () => {
+    discardRecording();
+    setRecordError(null);
+    setPhase('countdown');
+    setCountdown(COUNTDOWN_SECONDS);
+    let remaining = COUNTDOWN_SECONDS;
+    timerRef.current = window.setInterval(() => {
+      remaining -= 1;
+      setCountdown(remaining);
+      if (remaining <= 0) {
+        clearTimers();
+        beginRecording();
+      }
+    }, 1000);
+  };
+
+  const sample: Blob | null = source === 'upload' ? audioFile : recordedSample;
+
+  const handleSubmit = async () => {
+    if (!name || !sample) return;
+    setIsProcessing(true);
+    setSaveError(null);
+
+    try {
+      const base64 = await blobToBase64(sample);
+      onSave({
+        id: crypto.randomUUID(),
+        name,
+        sampleBase64: base64,
+        mimeType: sample.type || 'audio/wav'
+      });
+      setName('');
+      setAudioFile(null);
+      discardRecording();
+      onClose();
+    } catch (err) {
+      console.error('Sample read error:', err);
+      setSaveError('Could not read the voice sample.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl p-8 max-w-md w-full shadow-2xl animate-in zoom-in-95 duration-200">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+            <Mic2 className="text-indigo-600" size={24} />
+            Voice Identity Clone
+          </h3>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors"><X size={20} /></button>
+        </div>
+
+        <div className="space-y-5">
+          <div>
+            <label className="text-xs font-bold text-slate-400 uppercase mb-2 block">Voice Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Digital Persona"
+              className="w-full h-12 px-4 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 ring-indigo-500/20 outline-none font-medium transition-all"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-1 p-1 bg-slate-100 rounded-xl">
+            {(['upload', 'record'] as SampleSource[]).map(s => (
+              <button
+                key={s}
+                onClick={() => setSource(s)}
+                disabled={phase === 'countdown' || phase === 'recording'}
+                className={`h-9 rounded-lg text-[11px] font-black uppercase tracking-widest transition-all ${source === s ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}
+              >
+                {s === 'upload' ? 'Upload File' : 'Record Mic'}
+              </button>
+            ))}
+          </div>
+
+          {source === 'upload' ? (
+            <div className="relative group">
+              <label className="text-xs font-bold text-slate-400 uppercase mb-2 block">Audio Sample (MP3/WAV)</label>
+              <div className={`h-32 border-2 border-dashed rounded-2xl flex flex-col items-center justify-center transition-all ${audioFile ? 'border-indigo-400 bg-indigo-50/50' : 'border-slate-200 hover:border-indigo-400'}`}>
+                <input
+                  type="file"
+                  accept="audio/*"
+                  onChange={(e) => setAudioFile(e.target.files?.[0] || null)}
+                  className="absolute inset-0 opacity-0 cursor-pointer"
+                />
+                {audioFile ? (
+                  <div className="text-center">
+                    <Check className="text-indigo-600 mx-auto mb-1" size={24} />
+                    <p className="text-sm font-bold text-indigo-700">{audioFile.name}</p>
+                  </div>
+                ) : (
+                  <div className="text-center">
+                    <Upload className="text-slate-300 group-hover:text-indigo-400 mx-auto mb-1" size={32} />
+                    <p className="text-xs font-bold text-slate-400 uppercase tracking-tighter">Click to upload voice sample</p>
+                  </div>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div>
+              <label className="text-xs font-bold text-slate-400 uppercase mb-2 block">
+                Microphone Sample ({MIN_RECORD_SECONDS}–{MAX_RECORD_SECONDS}s)
+              </label>
+              <div className={`min-h-32 p-4 border-2 border-dashed rounded-2xl flex flex-col items-center justify-center gap-3 transition-all ${phase === 'recording' ? 'border-red-300 bg-red-50/40' : phase === 'review' ? 'border-indigo-400 bg-indigo-50/50' : 'border-slate-200'}`}>
+                {phase === 'idle' && (
+                  <button onClick={startCountdown} className="flex flex-col items-center gap-1 group">
+                    <div className="w-12 h-12 rounded-full bg-red-500 group-hover:bg-red-600 text-white flex items-center justify-center shadow-lg shadow-red-100 transition-all">
+                      <Mic2 size={20} />
+                    </div>
+                    <p className="text-xs font-bold text-slate-400 uppercase tracking-tighter">Click to start recording</p>
+                  </button>
+                )}
+
+                {phase === 'countdown' && (
+                  <p className="text-4xl font-black text-indigo-600 tabular-nums">{countdown}</p>
+                )}
+
+                {phase === 'recording' && (
+                  <>
+                    <div className="w-full h-2 bg-slate-100 rounded-full overflow-hidden">
+                      <div className="h-full bg-red-500 transition-[width] duration-75" style={{ width: `${level * 100}%` }} />
+                    </div>
+                    <div className="w-full flex items-center justify-between">
+                      <span className="text-xs font-black tabular-nums text-slate-600">
+                        {elapsed.toFixed(1)}s / {MAX_RECORD_SECONDS}s
+                      </span>
+                      <button
+                        onClick={finishRecording}
+                        disabled={elapsed < MIN_RECORD_SECONDS}
+                        className="px-3 py-1.5 bg-slate-900 disabled:opacity-40 text-white rounded-lg text-[10px] font-black uppercase tracking-widest flex items-center gap-1.5"
+                      >
+                        <Square size={10} fill="currentColor" /> Stop
+                      </button>
+                    </div>
+                  </>
+                )}
+
+                {phase === 'processing' && (
+                  <RefreshCw className="animate-spin text-indigo-600" size={20} />
+                )}
+
+                {phase === 'review' && recordedUrl && (
+                  <div className="w-full space-y-2">
+                    <audio src={recordedUrl} controls className="w-full h-10" />
+                    <div className="flex justify-center gap-2">
+                      <button onClick={startCountdown} className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-[10px] font-black uppercase tracking-widest text-slate-500 flex items-center gap-1.5">
+                        <Play size={10} /> Retake
+                      </button>
+                      <button onClick={discardRecording} className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-red-500 flex items-center gap-1.5">
+                        <Trash2 size={10} /> Discard
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {recordError && phase === 'idle' && (
+                  <p className="text-[11px] font-bold text-red-500 text-center">{recordError}</p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {saveError && (
+            <p className="text-[11px] font-bold text-red-500 text-center">{saveError}</p>
+          )}
+
+          <button
+            onClick={handleSubmit}
+            disabled={!name || !sample || isProcessing}
+            className="w-full h-14 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white rounded-2xl font-black shadow-lg shadow-indigo-200 transition-all flex items-center justify-center gap-2"
+          >
+            {isProcessing ? <RefreshCw className="animate-spin" size={18} /> : <Zap size={18} />}
+            {isProcessing ? 'CALIBRATING...' : 'CREATE AI PROFILE'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CloneVoiceModal;
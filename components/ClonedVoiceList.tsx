@@ -0,0 +1,109 @@
+import React, { useState, useRef } from 'react';
+import { Mic2, Pencil, Trash2, Download, Upload, Check, X } from 'lucide-react';
+import { ClonedVoice } from '../types';
+import { cloneVoiceId } from '../utils/voices';
+
+const ClonedVoiceList: React.FC<{
+  voices: ClonedVoice[];
+  selectedVoiceId: string;
+  onSelect: (id: string) => void;
+  onRename: (voice: ClonedVoice, name: string) => void;
+  onDelete: (voice: ClonedVoice) => void;
+  onExport: (voices: ClonedVoice[]) => void;
+  onImport: (file: File) => void;
+}> = ({ voices, selectedVoiceId, onSelect, onRename, onDelete, onExport, onImport }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const commitRename = (voice: ClonedVoice) => {
+    const name = draftName.trim();
+    if (name && name !== voice.name) onRename(voice, name);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="bg-white p-6 border border-slate-100 rounded-3xl shadow-pro space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-2">
+          <Mic2 size={12} /> Cloned Voices
+        </h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            title="Import profile"
+            className="p-1.5 hover:bg-slate-50 rounded-lg text-slate-400 hover:text-indigo-600 transition-colors"
+          >
+            <Upload size={14} />
+          </button>
+          {voices.length > 0 && (
+            <button
+              onClick={() => onExport(voices)}
+              title="Export all profiles"
+              className="p-1.5 hover:bg-slate-50 rounded-lg text-slate-400 hover:text-indigo-600 transition-colors"
+            >
+              <Download size={14} />
+            </button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json,.voice.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {voices.length === 0 ? (
+        <p className="text-[10px] font-bold text-slate-300 uppercase text-center py-2">No clones yet</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {voices.map(v => (
+            <li
+              key={v.id}
+              className={`group flex items-center gap-2 px-3 h-10 rounded-xl border transition-all ${selectedVoiceId === cloneVoiceId(v) ? 'border-indigo-200 bg-indigo-50/50' : 'border-slate-50 hover:border-indigo-100'}`}
+            >
+              {editingId === v.id ? (
+                <>
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename(v);
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-grow min-w-0 h-7 px-2 bg-white border border-slate-200 rounded-lg text-[11px] font-bold outline-none focus:ring-2 ring-indigo-500/10"
+                  />
+                  <button onClick={() => commitRename(v)} className="text-indigo-600"><Check size={12} /></button>
+                  <button onClick={() => setEditingId(null)} className="text-slate-300"><X size={12} /></button>
+                </>
+              ) : (
+                <>
+                  <button
+                    onClick={() => onSelect(cloneVoiceId(v))}
+                    className="flex-grow min-w-0 text-left text-[11px] font-bold text-slate-700 truncate"
+                  >
+                    {v.name}
+                  </button>
+                  <div className="flex items-center gap-1.5 opacity-0 group-hover:opacity-100 transition-all">
+                    <button onClick={() => { setEditingId(v.id); setDraftName(v.name); }} className="text-slate-300 hover:text-indigo-600"><Pencil size={12} /></button>
+                    <button onClick={() => onExport([v])} className="text-slate-300 hover:text-indigo-600"><Download size={12} /></button>
+                    <button onClick={() => onDelete(v)} className="text-slate-300 hover:text-red-500"><Trash2 size={12} /></button>
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ClonedVoiceList;
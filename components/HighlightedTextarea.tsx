@@ -0,0 +1,65 @@
+import React, { useRef } from 'react';
+
+export interface TextHighlight {
+  start: number;
+  end: number;
+  className: string;
+  title?: string;
+}
+
+// A textarea with a mirrored backdrop so ranges of the text can be painted
+// behind the caret. The backdrop must share the textarea's font, padding and
+// wrapping, so both take the same `className`; colours go in `textClassName`.
+const HighlightedTextarea: React.FC<{
+  value: string;
+  onChange: (value: string) => void;
+  highlights: TextHighlight[];
+  placeholder?: string;
+  className: string;
+  textClassName?: string;
+  readOnly?: boolean;
+  textareaRef?: React.RefObject<HTMLTextAreaElement | null>;
+}> = ({ value, onChange, highlights, placeholder, className, textClassName = '', readOnly, textareaRef }) => {
+  const backdropRef = useRef<HTMLDivElement>(null);
+
+  const sorted = [...highlights]
+    .filter(h => h.end > h.start)
+    .sort((a, b) => a.start - b.start);
+  const pieces: React.ReactNode[] = [];
+  let cursor = 0;
+  sorted.forEach((h, i) => {
+    const start = Math.max(h.start, cursor);
+    if (start >= h.end) return;
+    if (start > cursor) pieces.push(value.slice(cursor, start));
+    pieces.push(<mark key={i} title={h.title} className={`rounded-sm text-transparent ${h.className}`}>{value.slice(start, h.end)}</mark>);
+    cursor = h.end;
+  });
+  pieces.push(value.slice(cursor));
+  // A trailing newline collapses in a div but not in a textarea.
+  pieces.push('​');
+
+  return (
+    <div className="relative">
+      <div
+        ref={backdropRef}
+        aria-hidden
+        className={`${className} absolute inset-0 overflow-y-scroll whitespace-pre-wrap break-words text-transparent pointer-events-none [scrollbar-color:transparent_transparent]`}
+      >
+        {pieces}
+      </div>
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onScroll={(e) => {
+          if (backdropRef.current) backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+        }}
+        placeholder={placeholder}
+        readOnly={readOnly}
+        className={`${className} ${textClassName} relative block bg-transparent overflow-y-scroll`}
+      />
+    </div>
+  );
+};
+
+export default HighlightedTextarea;
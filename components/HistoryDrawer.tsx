@@ -0,0 +1,249 @@
+import React, { useMemo, useState } from 'react';
+import { History, X, Trash2, Search, Star, Play, Download, Tag, Folder } from 'lucide-react';
+import { HistoryItem, SubtitleFormat } from '../types';
+
+type Filter = { kind: 'all' } | { kind: 'favorites' } | { kind: 'folder'; name: string };
+
+const matchesQuery = (item: HistoryItem, query: string) => {
+  if (!query) return true;
+  const haystack = [item.text, item.voiceName, item.folder, ...(item.tags ?? [])]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+  return query.toLowerCase().split(/\s+/).every(term => haystack.includes(term));
+};
+
+const HistoryDrawer: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  items: HistoryItem[];
+  onLoad: (item: HistoryItem) => void;
+  onReplay: (item: HistoryItem) => void;
+  onUpdate: (items: HistoryItem[]) => void;
+  onDelete: (ids: string[]) => void;
+  onExport: (items: HistoryItem[]) => void;
+  onExportSubtitles: (item: HistoryItem, format: SubtitleFormat) => void;
+}> = ({ isOpen, onClose, items, onLoad, onReplay, onUpdate, onDelete, onExport, onExportSubtitles }) => {
+  const [query, setQuery] = useState('');
+  const [filter, setFilter] = useState<Filter>({ kind: 'all' });
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const folders = useMemo(
+    () => Array.from(new Set(items.map(i => i.folder).filter((f): f is string => !!f))).sort(),
+    [items],
+  );
+
+  const visible = useMemo(() => items.filter(item => {
+    if (filter.kind === 'favorites' && !item.favorite) return false;
+    if (filter.kind === 'folder' && item.folder !== filter.name) return false;
+    return matchesQuery(item, query.trim());
+  }), [items, filter, query]);
+
+  const selectedItems = visible.filter(i => selected.has(i.id));
+  const allSelected = visible.length > 0 && selectedItems.length === visible.length;
+
+  const toggleSelected = (id: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const deleteSelected = () => {
+    if (!confirm(`Delete ${selectedItems.length} entr${selectedItems.length === 1 ? 'y' : 'ies'}?`)) return;
+    onDelete(selectedItems.map(i => i.id));
+    setSelected(new Set());
+  };
+
+  const patch = (item: HistoryItem, changes: Partial<HistoryItem>) => onUpdate([{ ...item, ...changes }]);
+
+  const chipClass = (active: boolean) =>
+    `px-2.5 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest whitespace-nowrap transition-colors ${active ? 'bg-indigo-600 text-white' : 'bg-slate-50 text-slate-400 hover:text-indigo-600'}`;
+  const inputClass = 'w-full h-8 px-2 bg-slate-50 border border-slate-100 rounded-lg text-[10px] font-bold outline-none focus:ring-2 ring-indigo-500/10';
+
+  return (
+    <div className={`fixed inset-y-0 right-0 w-96 max-w-full bg-white shadow-2xl z-[150] transition-transform duration-300 border-l border-slate-100 ${isOpen ? 'translate-x-0' : 'translate-x-full'}`}>
+      <div className="h-full flex flex-col p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-sm font-black text-slate-900 flex items-center gap-2 uppercase tracking-tight">
+            <History size={16} className="text-indigo-600" /> Script Archive
+          </h3>
+          <button onClick={onClose} className="p-2 hover:bg-slate-50 rounded-lg"><X size={18} /></button>
+        </div>
+
+        <div className="relative mb-3">
+          <Search size={12} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-300" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search text, voice or tag..."
+            className="w-full h-9 pl-8 pr-3 bg-slate-50 border border-slate-100 rounded-xl text-[11px] font-bold outline-none focus:ring-2 ring-indigo-500/10"
+          />
+        </div>
+
+        <div className="flex items-center gap-1.5 mb-3 overflow-x-auto pb-1">
+          <button onClick={() => setFilter({ kind: 'all' })} className={chipClass(filter.kind === 'all')}>All</button>
+          <button onClick={() => setFilter({ kind: 'favorites' })} className={chipClass(filter.kind === 'favorites')}>
+            <Star size={9} className="inline -mt-0.5" /> Starred
+          </button>
+          {folders.map(name => (
+            <button
+              key={name}
+              onClick={() => setFilter({ kind: 'folder', name })}
+              className={chipClass(filter.kind === 'folder' && filter.name === name)}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+
+        {visible.length > 0 && (
+          <div className="flex items-center justify-between mb-3 px-1">
+            <label className="flex items-center gap-2 text-[9px] font-black text-slate-400 uppercase cursor-pointer">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={() => setSelected(allSelected ? new Set() : new Set(visible.map(i => i.id)))}
+                className="w-3.5 h-3.5 accent-indigo-600"
+              />
+              {selectedItems.length > 0 ? `${selectedItems.length} selected` : `${visible.length} entries`}
+            </label>
+            {selectedItems.length > 0 && (
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => onExport(selectedItems)}
+                  className="px-2 py-1 rounded-lg text-[9px] font-black uppercase text-slate-400 hover:text-indigo-600 flex items-center gap-1 transition-colors"
+                >
+                  <Download size={10} /> Export
+                </button>
+                <button
+                  onClick={deleteSelected}
+                  className="px-2 py-1 rounded-lg text-[9px] font-black uppercase text-slate-400 hover:text-red-500 flex items-center gap-1 transition-colors"
+                >
+                  <Trash2 size={10} /> Delete
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        <datalist id="history-folders">
+          {folders.map(f => <option key={f} value={f} />)}
+        </datalist>
+
+        <div className="flex-grow overflow-y-auto space-y-3">
+          {visible.length === 0 ? (
+            <p className="text-center py-20 text-[10px] font-bold text-slate-300 uppercase">
+              {items.length === 0 ? 'Vault empty' : 'No matches'}
+            </p>
+          ) : (
+            visible.map((item) => (
+              <div
+                key={item.id}
+                className={`group p-4 rounded-2xl border transition-all cursor-pointer relative ${selected.has(item.id) ? 'border-indigo-200 bg-indigo-50/30' : 'border-slate-50 hover:border-indigo-100 hover:bg-indigo-50/20'}`}
+                onClick={() => onLoad(item)}
+              >
+                <div className="flex justify-between items-center mb-1">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(item.id)}
+                      onClick={(e) => e.stopPropagation()}
+                      onChange={() => toggleSelected(item.id)}
+                      className="w-3 h-3 accent-indigo-600"
+                    />
+                    <span className="text-[9px] font-bold text-slate-300 uppercase">
+                      {new Date(item.timestamp).toLocaleString()}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-1.5">
+                    <button
+                      onClick={(e) => { e.stopPropagation(); patch(item, { favorite: !item.favorite }); }}
+                      className={`transition-all ${item.favorite ? 'text-amber-400' : 'text-slate-200 hover:text-amber-400 opacity-0 group-hover:opacity-100'}`}
+                    >
+                      <Star size={12} fill={item.favorite ? 'currentColor' : 'none'} />
+                    </button>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); setEditingId(editingId === item.id ? null : item.id); }}
+                      className="text-slate-200 hover:text-indigo-600 opacity-0 group-hover:opacity-100 transition-all"
+                    >
+                      <Tag size={12} />
+                    </button>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); onDelete([item.id]); }}
+                      className="text-slate-200 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                </div>
+                <p className="text-[11px] font-bold text-slate-700 line-clamp-2">{item.text}</p>
+                <p className="mt-1 text-[9px] font-bold text-slate-400 truncate">
+                  {item.voiceName}
+                  {item.settings && !item.settings.isDialogueMode && ` · ${item.settings.rate.toFixed(1)}x · pitch ${item.settings.pitch.toFixed(1)}`}
+                  {item.audioDuration !== undefined && ` · ${item.audioDuration.toFixed(1)}s`}
+                </p>
+
+                {(item.folder || (item.tags && item.tags.length > 0)) && (
+                  <div className="flex flex-wrap items-center gap-1 mt-2">
+                    {item.folder && (
+                      <span className="px-1.5 py-0.5 rounded-md bg-indigo-50 text-[9px] font-black text-indigo-500 flex items-center gap-1">
+                        <Folder size={9} /> {item.folder}
+                      </span>
+                    )}
+                    {item.tags?.map(t => (
+                      <span key={t} className="px-1.5 py-0.5 rounded-md bg-slate-50 text-[9px] font-black text-slate-400">#{t}</span>
+                    ))}
+                  </div>
+                )}
+
+                {editingId === item.id && (
+                  <div className="mt-3 space-y-2" onClick={(e) => e.stopPropagation()}>
+                    <input
+                      defaultValue={item.folder ?? ''}
+                      list="history-folders"
+                      placeholder="Folder"
+                      onBlur={(e) => patch(item, { folder: e.target.value.trim() || undefined })}
+                      className={inputClass}
+                    />
+                    <input
+                      defaultValue={(item.tags ?? []).join(', ')}
+                      placeholder="Tags, comma separated"
+                      onBlur={(e) => patch(item, { tags: e.target.value.split(',').map(t => t.trim()).filter(Boolean) })}
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+
+                {(item.audioDuration !== undefined || (item.timing && item.timing.length > 0)) && (
+                  <div className="flex items-center gap-1 mt-2">
+                    {item.audioDuration !== undefined && (
+                      <button
+                        onClick={(e) => { e.stopPropagation(); onReplay(item); }}
+                        className="px-2 py-1 rounded-md bg-indigo-50 text-[9px] font-black uppercase text-indigo-600 hover:bg-indigo-100 flex items-center gap-1 transition-colors"
+                      >
+                        <Play size={9} fill="currentColor" /> Replay
+                      </button>
+                    )}
+                    {item.timing && item.timing.length > 0 && (['srt', 'vtt'] as SubtitleFormat[]).map(format => (
+                      <button
+                        key={format}
+                        onClick={(e) => { e.stopPropagation(); onExportSubtitles(item, format); }}
+                        className="px-2 py-1 rounded-md bg-slate-50 text-[9px] font-black uppercase text-slate-400 hover:text-indigo-600 transition-colors"
+                      >
+                        {format}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryDrawer;
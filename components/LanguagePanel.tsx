@@ -0,0 +1,70 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { LanguageSettings, VoiceOption } from '../types';
+import { describeLang, groupVoices } from '../utils/voices';
+
+const LanguagePanel: React.FC<{
+  settings: LanguageSettings;
+  onChange: (settings: LanguageSettings) => void;
+  languages: string[];
+  voices: VoiceOption[];
+  autoVoiceFor: (lang: string) => VoiceOption | undefined;
+}> = ({ settings, onChange, languages, voices, autoVoiceFor }) => {
+  const setVoice = (lang: string, voiceId: string) => {
+    const next = { ...settings.voices };
+    if (voiceId) next[lang] = voiceId;
+    else delete next[lang];
+    onChange({ ...settings, voices: next });
+  };
+  const groups = groupVoices(voices);
+
+  return (
+    <div className="bg-white p-6 border border-slate-100 rounded-3xl shadow-pro space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-2">
+          <Languages size={12} /> Languages
+        </h3>
+        <input
+          type="checkbox"
+          checked={settings.detect}
+          onChange={(e) => onChange({ ...settings, detect: e.target.checked })}
+          title="Detect the language of each sentence"
+          className="w-4 h-4 accent-indigo-600 cursor-pointer"
+        />
+      </div>
+
+      {languages.length === 0 ? (
+        <p className="text-[10px] font-bold text-slate-300 uppercase text-center py-2">
+          {settings.detect ? 'Other languages switch voices' : 'Only <lang> tags switch voices'}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {languages.map(lang => {
+            const auto = autoVoiceFor(lang);
+            return (
+              <label key={lang} className="block space-y-1">
+                <span className="px-1 text-[9px] font-black text-slate-400 uppercase">{describeLang(lang).language}</span>
+                <select
+                  value={settings.voices[lang] ?? ''}
+                  onChange={(e) => setVoice(lang, e.target.value)}
+                  className="w-full h-9 px-3 bg-slate-50 border border-slate-100 rounded-xl font-bold text-[11px] outline-none focus:ring-2 ring-indigo-500/10 cursor-pointer transition-all"
+                >
+                  <option value="">Auto · {auto?.name ?? 'main voice'}</option>
+                  {groups.map(group => (
+                    <optgroup key={group.key} label={group.label}>
+                      {group.voices.map(v => (
+                        <option key={v.id} value={v.id}>{v.isCloned ? '✨ Clone: ' : ''}{v.name}</option>
+                      ))}
+                    </optgroup>
+                  ))}
+                </select>
+              </label>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LanguagePanel;
@@ -0,0 +1,76 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { DETECTED_LANGUAGES, LanguageSpan, primaryLanguage } from '../utils/language';
+import { describeLang } from '../utils/voices';
+
+const TINTS = ['bg-amber-100', 'bg-sky-100', 'bg-emerald-100', 'bg-fuchsia-100', 'bg-lime-100', 'bg-orange-100', 'bg-cyan-100'];
+
+// Editor tint for a language; the same language always gets the same colour.
+export const languageTint = (lang: string) => {
+  const i = DETECTED_LANGUAGES.indexOf(primaryLanguage(lang));
+  return TINTS[(i < 0 ? DETECTED_LANGUAGES.length : i) % TINTS.length];
+};
+
+const LanguageSpanList: React.FC<{
+  spans: { span: LanguageSpan; voiceName: string | null }[];
+  text: string;
+  onFocus: (span: LanguageSpan) => void;
+  onChange: (span: LanguageSpan, lang: string | null) => void;
+  onMarkSelection: (lang: string) => void;
+}> = ({ spans, text, onFocus, onChange, onMarkSelection }) => {
+  const languageOptions = DETECTED_LANGUAGES.map(lang => (
+    <option key={lang} value={lang}>{describeLang(lang).language}</option>
+  ));
+  const selectClass = 'h-6 px-1 bg-white border border-slate-100 rounded-md text-[9px] font-black uppercase outline-none cursor-pointer';
+
+  return (
+    <div className="px-6 py-3 border-t border-slate-50 bg-slate-50/40">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-[9px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-1.5">
+          <Languages size={11} /> Languages
+        </span>
+        <select
+          value=""
+          onChange={(e) => { if (e.target.value) onMarkSelection(e.target.value); }}
+          title="Wrap the selected text in a <lang> tag"
+          className={selectClass}
+        >
+          <option value="">Mark selection as...</option>
+          {languageOptions}
+        </select>
+      </div>
+      <ul className="space-y-1 max-h-32 overflow-y-auto">
+        {spans.map(({ span, voiceName }) => (
+          <li key={`${span.start}-${span.lang}`} className="flex items-center gap-2">
+            <span className={`px-1.5 py-0.5 rounded text-[9px] font-black uppercase text-slate-600 ${languageTint(span.lang)}`}>
+              {span.lang}
+            </span>
+            <button
+              onClick={() => onFocus(span)}
+              className="flex-1 min-w-0 truncate text-left text-[11px] font-medium text-slate-600 hover:text-indigo-600"
+            >
+              {text.slice(span.start, span.end).replace(/<[^<>]*>/g, '')}
+            </button>
+            <span
+              title={voiceName ? 'Voice for this span' : 'No voice installed for this language; the main voice reads it'}
+              className={`shrink-0 max-w-[8rem] truncate text-[9px] font-bold ${voiceName ? 'text-slate-400' : 'text-amber-500'}`}
+            >
+              {voiceName ?? 'Main voice'}
+            </span>
+            <select
+              value={span.mark ? span.lang : ''}
+              onChange={(e) => onChange(span, e.target.value || null)}
+              className={selectClass}
+            >
+              <option value="">{span.mark ? 'Detect' : 'Detected'}</option>
+              {span.mark && !DETECTED_LANGUAGES.includes(span.lang) && <option value={span.lang}>{span.lang}</option>}
+              {languageOptions}
+            </select>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default LanguageSpanList;
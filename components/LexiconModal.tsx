@@ -0,0 +1,144 @@
+import React, { useRef } from 'react';
+import { BookA, X, Plus, Trash2, Volume2, Upload, Download } from 'lucide-react';
+import { LexiconEntry } from '../types';
+
+const LexiconModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  entries: LexiconEntry[];
+  languages: string[];
+  onChange: (entries: LexiconEntry[]) => void;
+  onPreview: (entry: LexiconEntry) => void;
+  onImport: (file: File) => void;
+  onExport: (format: 'json' | 'csv') => void;
+}> = ({ isOpen, onClose, entries, languages, onChange, onPreview, onImport, onExport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (!isOpen) return null;
+
+  const update = (id: string, patch: Partial<LexiconEntry>) =>
+    onChange(entries.map(e => e.id === id ? { ...e, ...patch } : e));
+
+  const addEntry = () => onChange([
+    { id: crypto.randomUUID(), term: '', replacement: '', caseSensitive: false, lang: '' },
+    ...entries,
+  ]);
+
+  const inputClass = 'h-9 px-3 bg-slate-50 border border-slate-100 rounded-lg text-[11px] font-bold outline-none focus:ring-2 ring-indigo-500/10 transition-all';
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl p-8 max-w-2xl w-full max-h-[85vh] flex flex-col shadow-2xl animate-in zoom-in-95 duration-200">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+            <BookA className="text-indigo-600" size={24} />
+            Pronunciation Lexicon
+          </h3>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors"><X size={20} /></button>
+        </div>
+
+        <div className="flex items-center justify-between gap-2 mb-4">
+          <button
+            onClick={addEntry}
+            className="px-3 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center gap-1.5 transition-all"
+          >
+            <Plus size={12} /> Add Term
+          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-2 bg-white border border-slate-200 hover:text-indigo-600 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-500 flex items-center gap-1.5 transition-all"
+            >
+              <Upload size={12} /> Import
+            </button>
+            {(['json', 'csv'] as const).map(format => (
+              <button
+                key={format}
+                onClick={() => onExport(format)}
+                disabled={entries.length === 0}
+                className="px-3 py-2 bg-white border border-slate-200 hover:text-indigo-600 disabled:opacity-50 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-500 flex items-center gap-1.5 transition-all"
+              >
+                <Download size={12} /> {format}
+              </button>
+            ))}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImport(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </div>
+
+        <datalist id="lexicon-langs">
+          {languages.map(l => <option key={l} value={l} />)}
+        </datalist>
+
+        <div className="flex-grow overflow-y-auto -mx-2 px-2">
+          {entries.length === 0 ? (
+            <p className="text-center py-16 text-[10px] font-bold text-slate-300 uppercase">No terms yet</p>
+          ) : (
+            <div className="space-y-2">
+              <div className="grid grid-cols-[1fr_1fr_5rem_2.5rem_4rem] gap-2 px-1 text-[9px] font-black text-slate-400 uppercase">
+                <span>Term</span><span>Say as</span><span>Lang</span><span>Case</span><span />
+              </div>
+              {entries.map(entry => (
+                <div key={entry.id} className="grid grid-cols-[1fr_1fr_5rem_2.5rem_4rem] gap-2 items-center">
+                  <input
+                    value={entry.term}
+                    onChange={(e) => update(entry.id, { term: e.target.value })}
+                    placeholder="e.g. SQL"
+                    className={inputClass}
+                  />
+                  <input
+                    value={entry.replacement}
+                    onChange={(e) => update(entry.id, { replacement: e.target.value })}
+                    placeholder="e.g. sequel"
+                    className={inputClass}
+                  />
+                  <input
+                    value={entry.lang}
+                    onChange={(e) => update(entry.id, { lang: e.target.value })}
+                    placeholder="All"
+                    list="lexicon-langs"
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={() => update(entry.id, { caseSensitive: !entry.caseSensitive })}
+                    title={entry.caseSensitive ? 'Case-sensitive' : 'Ignores case'}
+                    className={`h-9 rounded-lg text-[11px] font-black transition-all ${entry.caseSensitive ? 'bg-indigo-50 text-indigo-600' : 'bg-slate-50 text-slate-300'}`}
+                  >
+                    Aa
+                  </button>
+                  <div className="flex items-center justify-end gap-1">
+                    <button
+                      onClick={() => onPreview(entry)}
+                      disabled={!entry.term.trim()}
+                      title="Preview with current voice"
+                      className="p-2 text-slate-300 hover:text-indigo-600 disabled:opacity-40 transition-colors"
+                    >
+                      <Volume2 size={14} />
+                    </button>
+                    <button
+                      onClick={() => onChange(entries.filter(e => e.id !== entry.id))}
+                      className="p-2 text-slate-300 hover:text-red-500 transition-colors"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LexiconModal;
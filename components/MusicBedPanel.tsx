@@ -0,0 +1,103 @@
+import React, { useRef } from 'react';
+import { Music, Upload, X, Play, Square } from 'lucide-react';
+import { MusicBedSettings, MusicTrack } from '../types';
+
+const MusicBedPanel: React.FC<{
+  track: MusicTrack | null;
+  settings: MusicBedSettings;
+  onChange: (settings: MusicBedSettings) => void;
+  onUpload: (file: File) => void;
+  onRemove: () => void;
+  canPreview: boolean;
+  isPreviewing: boolean;
+  onTogglePreview: () => void;
+}> = ({ track, settings, onChange, onUpload, onRemove, canPreview, isPreviewing, onTogglePreview }) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const update = (patch: Partial<MusicBedSettings>) => onChange({ ...settings, ...patch });
+
+  const slider = (key: keyof Omit<MusicBedSettings, 'enabled'>, label: string, min: number, max: number, step: number, unit: string) => (
+    <div className="space-y-1">
+      <div className="flex justify-between items-center px-1">
+        <span className="text-[9px] font-black text-slate-400 uppercase">{label}</span>
+        <span className="text-[10px] font-black text-indigo-600">{settings[key]}{unit}</span>
+      </div>
+      <input
+        type="range"
+        min={min} max={max} step={step}
+        value={settings[key]}
+        onChange={(e) => update({ [key]: parseFloat(e.target.value) })}
+        className="w-full h-1.5 appearance-none bg-slate-100 rounded-lg cursor-pointer accent-indigo-600"
+      />
+    </div>
+  );
+
+  return (
+    <div className="bg-white p-6 border border-slate-100 rounded-3xl shadow-pro space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-2">
+          <Music size={12} /> Music Bed
+        </h3>
+        {track && (
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            title="Mix music into preview and export"
+            className="w-4 h-4 accent-indigo-600 cursor-pointer"
+          />
+        )}
+      </div>
+
+      <input
+        ref={fileRef}
+        type="file"
+        accept="audio/*"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onUpload(file);
+          e.target.value = '';
+        }}
+      />
+
+      {track ? (
+        <div className="flex items-center gap-2 h-9 px-3 bg-slate-50 border border-slate-100 rounded-lg">
+          <span className="flex-1 truncate text-[10px] font-bold text-slate-600">{track.name}</span>
+          <span className="text-[9px] font-black text-slate-400">{track.buffer.duration.toFixed(0)}s</span>
+          <button onClick={onRemove} className="text-slate-300 hover:text-red-500 transition-colors" title="Remove track">
+            <X size={12} />
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => fileRef.current?.click()}
+          className="w-full h-9 flex items-center justify-center gap-2 border border-dashed border-slate-200 rounded-lg text-[10px] font-black uppercase text-slate-400 hover:border-indigo-300 hover:text-indigo-600 transition-all"
+        >
+          <Upload size={12} /> Upload Track
+        </button>
+      )}
+
+      {track && settings.enabled && (
+        <>
+          <div className="grid grid-cols-2 gap-x-4 gap-y-3">
+            {slider('level', 'Level', -36, 0, 1, ' dB')}
+            {slider('duck', 'Duck', -24, 0, 1, ' dB')}
+            {slider('fadeIn', 'Fade In', 0, 5, 0.5, 's')}
+            {slider('fadeOut', 'Fade Out', 0, 5, 0.5, 's')}
+            {slider('introPad', 'Intro', 0, 10, 0.5, 's')}
+            {slider('outroPad', 'Outro', 0, 10, 0.5, 's')}
+          </div>
+          <button
+            onClick={onTogglePreview}
+            disabled={!canPreview && !isPreviewing}
+            className="w-full h-9 flex items-center justify-center gap-2 bg-slate-900 text-white rounded-lg text-[10px] font-black uppercase disabled:opacity-30 hover:bg-indigo-600 transition-all"
+          >
+            {isPreviewing ? <><Square size={12} fill="currentColor" /> Stop Mix</> : <><Play size={12} fill="currentColor" /> Preview Mix</>}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MusicBedPanel;
@@ -0,0 +1,77 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { WifiOff, CloudUpload, RefreshCw, X } from 'lucide-react';
+import { QueuedRender } from '../types';
+
+// Navbar pill for the connection and the offline render queue. Hidden while
+// online with nothing queued.
+const NetworkStatus: React.FC<{
+  isOnline: boolean;
+  queue: QueuedRender[];
+  isRendering: boolean;
+  onDiscard: (id: string) => void;
+}> = ({ isOnline, queue, isRendering, onDiscard }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const close = (e: MouseEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [isOpen]);
+
+  if (isOnline && queue.length === 0) return null;
+
+  return (
+    <div ref={rootRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title={isOnline ? 'Queued cloned-voice renders' : 'Offline: browser voices, history and export still work'}
+        className={`px-3 py-1.5 rounded-lg text-[11px] font-black flex items-center gap-1.5 transition-all shadow-sm border ${isOnline ? 'bg-white border-slate-100 text-indigo-600' : 'bg-amber-50 border-amber-100 text-amber-600'}`}
+      >
+        {isOnline
+          ? (isRendering ? <RefreshCw size={14} className="animate-spin" /> : <CloudUpload size={14} />)
+          : <WifiOff size={14} />}
+        {isOnline ? '' : 'OFFLINE'}
+        {queue.length > 0 && `${isOnline ? '' : ' · '}${queue.length} QUEUED`}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-50 mt-2 w-72 bg-white border border-slate-100 rounded-2xl shadow-2xl overflow-hidden animate-in fade-in zoom-in-95 duration-150">
+          <p className="px-4 py-3 border-b border-slate-50 text-[10px] font-bold text-slate-400">
+            {isOnline
+              ? 'Queued scripts render one by one and land in History.'
+              : 'Cloned voices need a connection. Scripts you generate with them wait here until you are back online.'}
+          </p>
+          {queue.length === 0 ? (
+            <div className="py-6 text-center text-[10px] font-bold text-slate-300 uppercase">Nothing queued</div>
+          ) : (
+            <ul className="max-h-64 overflow-y-auto">
+              {queue.map(item => (
+                <li key={item.id} className="group flex items-start gap-2 px-4 py-2 border-b border-slate-50 last:border-none">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-[11px] font-bold text-slate-700 truncate">{item.text}</p>
+                    <p className={`text-[9px] font-bold truncate ${item.error ? 'text-red-500' : 'text-slate-400'}`}>
+                      {item.error ?? `${item.voiceName} · ${new Date(item.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => onDiscard(item.id)}
+                    title="Discard"
+                    className="p-1 text-slate-300 hover:text-red-500 transition-colors"
+                  >
+                    <X size={12} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NetworkStatus;
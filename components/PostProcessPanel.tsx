@@ -0,0 +1,74 @@
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { PostProcessSettings } from '../types';
+import { COMPRESSION_OPTIONS, EQ_OPTIONS, REVERB_OPTIONS } from '../utils/processing';
+
+const PostProcessPanel: React.FC<{
+  settings: PostProcessSettings;
+  onChange: (settings: PostProcessSettings) => void;
+}> = ({ settings, onChange }) => {
+  const update = (patch: Partial<PostProcessSettings>) => onChange({ ...settings, ...patch });
+  const selectClass = 'w-full h-9 px-2 bg-slate-50 border border-slate-100 rounded-lg font-bold text-[10px] uppercase outline-none focus:ring-2 ring-indigo-500/10 cursor-pointer';
+
+  const presetSelect = <K extends 'eq' | 'compression' | 'reverb'>(key: K, label: string, options: PostProcessSettings[K][]) => (
+    <div className="space-y-1">
+      <label className="text-[9px] font-black text-slate-400 uppercase ml-1">{label}</label>
+      <select value={settings[key]} onChange={(e) => update({ [key]: e.target.value } as Partial<PostProcessSettings>)} className={selectClass}>
+        {options.map(o => <option key={o} value={o}>{o}</option>)}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="bg-white p-6 border border-slate-100 rounded-3xl shadow-pro space-y-4">
+      <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-2">
+        <SlidersHorizontal size={12} /> Post-Processing
+      </h3>
+
+      <div className="grid grid-cols-3 gap-2">
+        {presetSelect('eq', 'EQ', EQ_OPTIONS)}
+        {presetSelect('compression', 'Comp', COMPRESSION_OPTIONS)}
+        {presetSelect('reverb', 'Reverb', REVERB_OPTIONS)}
+      </div>
+
+      <label className="flex items-center justify-between gap-3 px-1 cursor-pointer">
+        <span className="text-[10px] font-black text-slate-400 uppercase">Trim Silence On Export</span>
+        <input
+          type="checkbox"
+          checked={settings.trimSilence}
+          onChange={(e) => update({ trimSilence: e.target.checked })}
+          className="w-4 h-4 accent-indigo-600 cursor-pointer"
+        />
+      </label>
+
+      <div className="space-y-2">
+        <label className="flex items-center justify-between gap-3 px-1 cursor-pointer">
+          <span className="text-[10px] font-black text-slate-400 uppercase">Normalize Loudness</span>
+          <input
+            type="checkbox"
+            checked={settings.normalize}
+            onChange={(e) => update({ normalize: e.target.checked })}
+            className="w-4 h-4 accent-indigo-600 cursor-pointer"
+          />
+        </label>
+        {settings.normalize && (
+          <div className="space-y-1">
+            <div className="flex justify-between items-center px-1">
+              <span className="text-[9px] font-black text-slate-400 uppercase">Target</span>
+              <span className="text-[10px] font-black text-indigo-600">{settings.targetLufs} LUFS</span>
+            </div>
+            <input
+              type="range"
+              min="-24" max="-10" step="1"
+              value={settings.targetLufs}
+              onChange={(e) => update({ targetLufs: parseFloat(e.target.value) })}
+              className="w-full h-1.5 appearance-none bg-slate-100 rounded-lg cursor-pointer accent-indigo-600"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PostProcessPanel;
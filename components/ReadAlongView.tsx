@@ -0,0 +1,90 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Word } from '../utils/segmenter';
+
+// Read-only rendering of the script with the spoken word and sentence lit up.
+// Markup tags are hidden; clicking a word starts playback from it.
+const ReadAlongView: React.FC<{
+  text: string;
+  words: Word[];
+  hiddenRanges: [number, number][];
+  activeWord: number;
+  activeSentence: { start: number; end: number } | null;
+  isFocusMode: boolean;
+  onWordClick: (offset: number) => void;
+}> = ({ text, words, hiddenRanges, activeWord, activeSentence, isFocusMode, onWordClick }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeRef = useRef<HTMLSpanElement>(null);
+
+  // Strips tags out of the text between two words.
+  const visible = (from: number, to: number) => {
+    let out = '';
+    let cursor = from;
+    hiddenRanges.forEach(([start, end]) => {
+      if (end <= cursor || start >= to) return;
+      out += text.slice(cursor, Math.max(cursor, start));
+      cursor = Math.min(to, Math.max(cursor, end));
+    });
+    return out + text.slice(cursor, to);
+  };
+
+  const tokens = useMemo(() => {
+    const out: { kind: 'word' | 'gap'; index: number; start: number; end: number; text: string }[] = [];
+    let cursor = 0;
+    words.forEach((w, i) => {
+      if (w.start > cursor) out.push({ kind: 'gap', index: i, start: cursor, end: w.start, text: visible(cursor, w.start) });
+      out.push({ kind: 'word', index: i, start: w.start, end: w.end, text: w.text });
+      cursor = w.end;
+    });
+    if (cursor < text.length) out.push({ kind: 'gap', index: words.length, start: cursor, end: text.length, text: visible(cursor, text.length) });
+    return out;
+  }, [text, words, hiddenRanges]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const el = activeRef.current;
+    if (!container || !el) return;
+    const top = el.offsetTop;
+    const outOfView = top < container.scrollTop || top > container.scrollTop + container.clientHeight - el.offsetHeight;
+    // Focus mode keeps the reading line centred; otherwise only follow when it leaves the view.
+    if (isFocusMode || outOfView) {
+      container.scrollTo({ top: top - container.clientHeight / 2, behavior: 'smooth' });
+    }
+  }, [activeWord, isFocusMode]);
+
+  const inSentence = (start: number, end: number) =>
+    !!activeSentence && start >= activeSentence.start && end <= activeSentence.end;
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative w-full p-8 text-lg font-medium leading-relaxed overflow-y-auto whitespace-pre-wrap break-words transition-all ${isFocusMode ? 'h-[70vh] text-slate-400' : 'h-80 text-slate-500'}`}
+    >
+      {tokens.map(t => {
+        if (t.kind === 'gap') {
+          return (
+            <span key={`g${t.index}`} className={inSentence(t.start, t.end) ? (isFocusMode ? 'bg-indigo-500/10' : 'bg-indigo-50') : ''}>
+              {t.text}
+            </span>
+          );
+        }
+        const isActive = t.index === activeWord;
+        return (
+          <span
+            key={`w${t.index}`}
+            ref={isActive ? activeRef : undefined}
+            onClick={() => onWordClick(t.start)}
+            className={`cursor-pointer rounded transition-colors ${isActive
+              ? 'bg-indigo-600 text-white'
+              : inSentence(t.start, t.end)
+                ? (isFocusMode ? 'bg-indigo-500/10 text-slate-100' : 'bg-indigo-50 text-slate-900')
+                : 'hover:text-indigo-600'}`}
+          >
+            {t.text}
+          </span>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ReadAlongView;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { Users, RotateCcw } from 'lucide-react';
+import { VoiceOption, SpeakerSettings } from '../types';
+import { NARRATOR } from '../utils/dialogue';
+import { groupVoices } from '../utils/voices';
+
+const SpeakerCast: React.FC<{
+  speakers: string[];
+  cast: Record<string, SpeakerSettings>;
+  voiceOptions: VoiceOption[];
+  defaults: SpeakerSettings;
+  onChange: (speaker: string, settings: SpeakerSettings | null) => void;
+}> = ({ speakers, cast, voiceOptions, defaults, onChange }) => (
+  <div className="bg-white p-6 border border-slate-100 rounded-3xl shadow-pro space-y-4">
+    <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-2">
+      <Users size={12} /> Cast
+    </h3>
+
+    {speakers.length === 0 ? (
+      <p className="text-[10px] font-bold text-slate-300 uppercase text-center py-2">Tag lines like "ALEX: Hello"</p>
+    ) : (
+      <div className="space-y-4">
+        {speakers.map(speaker => {
+          const assigned = cast[speaker];
+          const settings = assigned || defaults;
+          const update = (patch: Partial<SpeakerSettings>) => onChange(speaker, { ...settings, ...patch });
+          return (
+            <div key={speaker} className="space-y-2">
+              <div className="flex items-center justify-between px-1">
+                <span className="text-[10px] font-black text-indigo-600 uppercase tracking-widest truncate">{speaker}</span>
+                {assigned ? (
+                  <button onClick={() => onChange(speaker, null)} title="Use main voice" className="text-slate-300 hover:text-indigo-600">
+                    <RotateCcw size={12} />
+                  </button>
+                ) : (
+                  <span className="text-[9px] font-bold text-slate-300 uppercase">{speaker === NARRATOR ? 'Main voice' : 'Default'}</span>
+                )}
+              </div>
+              <select
+                value={settings.voiceId}
+                onChange={(e) => update({ voiceId: e.target.value })}
+                className="w-full h-9 px-3 bg-slate-50 border border-slate-100 rounded-xl font-bold text-[11px] outline-none focus:ring-2 ring-indigo-500/10 cursor-pointer transition-all"
+              >
+                {groupVoices(voiceOptions).map(group => (
+                  <optgroup key={group.key} label={group.label}>
+                    {group.voices.map(v => (
+                      <option key={v.id} value={v.id}>{v.isCloned ? '✨ Clone: ' : ''}{v.name}</option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+              <div className="grid grid-cols-2 gap-3">
+                <label className="space-y-1">
+                  <span className="text-[9px] font-black text-slate-400 uppercase">Speed {settings.rate.toFixed(1)}x</span>
+                  <input
+                    type="range" min="0.5" max="2" step="0.1"
+                    value={settings.rate}
+                    onChange={(e) => update({ rate: parseFloat(e.target.value) })}
+                    className="w-full h-1.5 appearance-none bg-slate-100 rounded-lg cursor-pointer accent-indigo-600"
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-[9px] font-black text-slate-400 uppercase">Pitch {settings.pitch.toFixed(1)}</span>
+                  <input
+                    type="range" min="0" max="2" step="0.1"
+                    value={settings.pitch}
+                    onChange={(e) => update({ pitch: parseFloat(e.target.value) })}
+                    className="w-full h-1.5 appearance-none bg-slate-100 rounded-lg cursor-pointer accent-indigo-600"
+                  />
+                </label>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    )}
+  </div>
+);
+
+export default SpeakerCast;
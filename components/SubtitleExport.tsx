@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { Captions, SlidersHorizontal } from 'lucide-react';
+import { SubtitleFormat, SubtitleOptions } from '../types';
+
+const LIMITS: { key: keyof SubtitleOptions; label: string; min: number; max: number; step: number; unit: string }[] = [
+  { key: 'maxCharsPerLine', label: 'Chars / Line', min: 16, max: 80, step: 1, unit: '' },
+  { key: 'maxLines', label: 'Lines / Cue', min: 1, max: 3, step: 1, unit: '' },
+  { key: 'maxDuration', label: 'Max Duration', min: 1, max: 15, step: 0.5, unit: 's' },
+  { key: 'minDuration', label: 'Min Duration', min: 0.2, max: 5, step: 0.1, unit: 's' },
+];
+
+// Caption download buttons for a render, with the cue limits tucked behind a toggle.
+const SubtitleExport: React.FC<{
+  options: SubtitleOptions;
+  onOptionsChange: (options: SubtitleOptions) => void;
+  onExport: (format: SubtitleFormat) => void;
+}> = ({ options, onOptionsChange, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative flex items-center gap-2">
+      {(['srt', 'vtt'] as SubtitleFormat[]).map(format => (
+        <button
+          key={format}
+          onClick={() => onExport(format)}
+          className="px-3 py-2 bg-white border border-slate-200 hover:border-indigo-200 hover:text-indigo-600 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-500 flex items-center gap-1.5 transition-all"
+        >
+          <Captions size={12} /> {format}
+        </button>
+      ))}
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title="Caption limits"
+        className={`p-2 rounded-xl border transition-all ${isOpen ? 'border-indigo-200 text-indigo-600 bg-indigo-50' : 'border-slate-200 text-slate-400 hover:text-indigo-600'}`}
+      >
+        <SlidersHorizontal size={12} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 bottom-full mb-2 w-64 p-4 bg-white border border-slate-100 rounded-2xl shadow-xl z-20 space-y-3">
+          {LIMITS.map(limit => (
+            <div key={limit.key} className="space-y-1">
+              <div className="flex justify-between items-center">
+                <label className="text-[9px] font-black text-slate-400 uppercase">{limit.label}</label>
+                <span className="text-[10px] font-black text-indigo-600">{options[limit.key]}{limit.unit}</span>
+              </div>
+              <input
+                type="range"
+                min={limit.min} max={limit.max} step={limit.step}
+                value={options[limit.key]}
+                onChange={(e) => onOptionsChange({ ...options, [limit.key]: parseFloat(e.target.value) })}
+                className="w-full h-1 appearance-none bg-slate-100 rounded-lg cursor-pointer accent-indigo-600"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SubtitleExport;
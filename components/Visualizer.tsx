@@ -0,0 +1,54 @@
+import React, { useEffect, useRef } from 'react';
+
+const BAR_COUNT = 12;
+
+// Spectrum bars driven by the shared AnalyserNode. Only audio that goes
+// through Web Audio (cloned voices, render previews) reaches the analyser;
+// browser voices are played by the OS and leave the bars at rest.
+const Visualizer: React.FC<{ analyser: AnalyserNode | null; isPlaying: boolean }> = ({ analyser, isPlaying }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    let animationId: number;
+    const bars = new Array(BAR_COUNT).fill(2);
+    const bins = analyser ? new Uint8Array(analyser.frequencyBinCount) : null;
+    // Speech energy sits well below 4 kHz, so the bars only cover the lower bins.
+    const usableBins = analyser ? Math.max(BAR_COUNT, Math.floor(4000 / (analyser.context.sampleRate / 2) * analyser.frequencyBinCount)) : 0;
+
+    const animate = () => {
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      const barWidth = canvas.width / BAR_COUNT - 2;
+      if (analyser && bins) analyser.getByteFrequencyData(bins);
+
+      bars.forEach((h, i) => {
+        let level = 0;
+        if (isPlaying && bins) {
+          const from = Math.floor(i * usableBins / BAR_COUNT);
+          const to = Math.floor((i + 1) * usableBins / BAR_COUNT);
+          for (let b = from; b < to; b++) level = Math.max(level, bins[b]);
+        }
+        const targetH = 2 + (level / 255) * (canvas.height - 2);
+        bars[i] += (targetH - bars[i]) * 0.3;
+
+        ctx.fillStyle = isPlaying ? '#6366f1' : '#cbd5e1';
+        ctx.beginPath();
+        ctx.roundRect(i * (barWidth + 2), (canvas.height - bars[i]) / 2, barWidth, bars[i], 1.5);
+        ctx.fill();
+      });
+
+      animationId = requestAnimationFrame(animate);
+    };
+
+    animate();
+    return () => cancelAnimationFrame(animationId);
+  }, [analyser, isPlaying]);
+
+  return <canvas ref={canvasRef} width={50} height={20} className="opacity-70" />;
+};
+
+export default Visualizer;
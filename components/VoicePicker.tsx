@@ -0,0 +1,153 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronDown, Search, Star, Volume2, Cloud, CloudOff, HardDrive } from 'lucide-react';
+import { VoiceOption } from '../types';
+import { describeLang, groupVoices, matchesVoiceQuery, voiceTags } from '../utils/voices';
+
+type Filter = 'all' | 'favorites' | 'local' | 'remote';
+
+const FILTERS: { id: Filter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'favorites', label: 'Starred' },
+  { id: 'local', label: 'Local' },
+  { id: 'remote', label: 'Remote' },
+];
+
+const VoicePicker: React.FC<{
+  voices: VoiceOption[];
+  isOffline: boolean;
+  selectedId: string;
+  favorites: string[];
+  onSelect: (id: string) => void;
+  onToggleFavorite: (id: string) => void;
+  onPreview: (voice: VoiceOption) => void;
+}> = ({ voices, isOffline, selectedId, favorites, onSelect, onToggleFavorite, onPreview }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [filter, setFilter] = useState<Filter>('all');
+  const rootRef = useRef<HTMLDivElement>(null);
+  const selected = voices.find(v => v.id === selectedId);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const close = (e: MouseEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [isOpen]);
+
+  const groups = useMemo(() => {
+    const starred = new Set(favorites);
+    const visible = voices.filter(v =>
+      matchesVoiceQuery(v, query)
+      && (filter !== 'favorites' || starred.has(v.id))
+      && (filter !== 'local' || v.localService)
+      && (filter !== 'remote' || !v.localService));
+    return groupVoices(visible);
+  }, [voices, favorites, query, filter]);
+
+  const badge = 'px-1.5 py-0.5 rounded text-[8px] font-black uppercase tracking-wider';
+  const selectedLang = selected?.lang ? describeLang(selected.lang) : null;
+
+  return (
+    <div ref={rootRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full h-11 px-3 bg-slate-50 border border-slate-100 rounded-xl flex items-center gap-2 text-left outline-none focus:ring-2 ring-indigo-500/10 transition-all"
+      >
+        <span className="flex-1 min-w-0">
+          <span className="block truncate font-bold text-[11px] text-slate-800">
+            {selected ? `${selected.isCloned ? '✨ ' : ''}${selected.name}` : 'Choose a voice'}
+          </span>
+          {selectedLang && (
+            <span className="block truncate text-[9px] font-bold text-slate-400">
+              {selectedLang.language}{selectedLang.region ? ` · ${selectedLang.region}` : ''}
+            </span>
+          )}
+        </span>
+        <ChevronDown size={14} className={`text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute z-40 mt-2 w-full min-w-[18rem] bg-white border border-slate-100 rounded-2xl shadow-2xl overflow-hidden animate-in fade-in zoom-in-95 duration-150">
+          <div className="p-3 border-b border-slate-50 space-y-2">
+            <div className="flex items-center gap-2 h-9 px-3 bg-slate-50 border border-slate-100 rounded-lg">
+              <Search size={12} className="text-slate-400" />
+              <input
+                autoFocus
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Name, language or region..."
+                className="flex-1 bg-transparent text-[11px] font-bold outline-none"
+              />
+            </div>
+            <div className="flex gap-1">
+              {FILTERS.map(f => (
+                <button
+                  key={f.id}
+                  onClick={() => setFilter(f.id)}
+                  className={`px-2 py-1 rounded-md text-[9px] font-black uppercase tracking-widest transition-all ${filter === f.id ? 'bg-indigo-600 text-white' : 'bg-slate-50 text-slate-400 hover:text-indigo-600'}`}
+                >
+                  {f.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="max-h-80 overflow-y-auto">
+            {groups.length === 0 && (
+              <div className="py-8 text-center text-[10px] font-bold text-slate-300 uppercase">No voices match</div>
+            )}
+            {groups.map(group => (
+              <div key={group.key}>
+                <div className="sticky top-0 px-3 py-1.5 bg-slate-50/95 backdrop-blur text-[9px] font-black uppercase tracking-widest text-slate-400">
+                  {group.label} <span className="text-slate-300">{group.voices.length}</span>
+                </div>
+                {group.voices.map(v => {
+                  const isFavorite = favorites.includes(v.id);
+                  const isUnreachable = isOffline && !v.localService;
+                  return (
+                    <div
+                      key={v.id}
+                      className={`group flex items-center gap-2 px-3 py-2 cursor-pointer transition-colors ${v.id === selectedId ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+                      onClick={() => { onSelect(v.id); setIsOpen(false); }}
+                    >
+                      <button
+                        onClick={(e) => { e.stopPropagation(); onToggleFavorite(v.id); }}
+                        title={isFavorite ? 'Unstar' : 'Star'}
+                        className={isFavorite ? 'text-amber-400' : 'text-slate-200 hover:text-amber-400'}
+                      >
+                        <Star size={12} fill={isFavorite ? 'currentColor' : 'none'} />
+                      </button>
+                      <span className={`flex-1 min-w-0 truncate text-[11px] font-bold ${isUnreachable ? 'text-slate-300' : 'text-slate-700'}`}>{v.name}</span>
+                      {voiceTags(v).map(tag => (
+                        <span key={tag} className={`${badge} bg-slate-100 text-slate-500`}>{tag}</span>
+                      ))}
+                      <span
+                        title={v.localService ? 'Runs on this device' : 'Synthesized on a server; needs a connection'}
+                        className={`${badge} flex items-center gap-0.5 ${v.localService ? 'bg-emerald-50 text-emerald-600' : isUnreachable ? 'bg-amber-50 text-amber-600' : 'bg-sky-50 text-sky-600'}`}
+                      >
+                        {v.localService ? <HardDrive size={8} /> : isUnreachable ? <CloudOff size={8} /> : <Cloud size={8} />}
+                        {v.localService ? 'Local' : isUnreachable ? 'Offline' : 'Remote'}
+                      </span>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); onPreview(v); }}
+                        disabled={isUnreachable}
+                        title={isUnreachable ? 'Needs a connection' : 'Play a sample'}
+                        className="p-1 rounded-md text-slate-300 hover:text-indigo-600 hover:bg-white disabled:opacity-40 disabled:hover:text-slate-300 transition-colors"
+                      >
+                        <Volume2 size={12} />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VoicePicker;
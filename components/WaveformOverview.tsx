@@ -0,0 +1,65 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { computePeaks, findSilences } from '../utils/audio';
+
+const COLUMNS = 600;
+const HEIGHT = 64;
+
+// Whole-render overview: clipped columns are drawn red, long silences are
+// shaded, and clicking moves the playhead.
+const WaveformOverview: React.FC<{
+  buffer: AudioBuffer;
+  position: number | null;
+  onSeek: (seconds: number) => void;
+}> = ({ buffer, position, onSeek }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const peaks = useMemo(() => computePeaks(buffer, COLUMNS), [buffer]);
+  const silences = useMemo(() => findSilences(buffer), [buffer]);
+  const clippedCount = useMemo(() => peaks.clipped.reduce((n, c) => n + c, 0), [peaks]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const mid = HEIGHT / 2;
+    const toX = (seconds: number) => (seconds / buffer.duration) * COLUMNS;
+
+    ctx.clearRect(0, 0, COLUMNS, HEIGHT);
+    ctx.fillStyle = '#fef3c7';
+    silences.forEach(([start, end]) => ctx.fillRect(toX(start), 0, toX(end) - toX(start), HEIGHT));
+
+    for (let x = 0; x < COLUMNS; x++) {
+      const top = mid - peaks.max[x] * mid;
+      const bottom = mid - peaks.min[x] * mid;
+      ctx.fillStyle = peaks.clipped[x] ? '#ef4444' : '#818cf8';
+      ctx.fillRect(x, top, 1, Math.max(1, bottom - top));
+    }
+
+    if (position !== null) {
+      ctx.fillStyle = '#0f172a';
+      ctx.fillRect(Math.min(COLUMNS - 2, toX(position)), 0, 2, HEIGHT);
+    }
+  }, [buffer, peaks, silences, position]);
+
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)) * buffer.duration);
+  };
+
+  return (
+    <div className="space-y-1">
+      <canvas
+        ref={canvasRef}
+        width={COLUMNS}
+        height={HEIGHT}
+        onClick={handleClick}
+        className="w-full h-16 rounded-xl bg-slate-50 cursor-pointer"
+      />
+      <div className="flex items-center gap-3 text-[9px] font-black uppercase tracking-widest text-slate-400">
+        {clippedCount > 0 && <span className="text-red-500">Clipping in {clippedCount} spot{clippedCount === 1 ? '' : 's'}</span>}
+        {silences.length > 0 && <span className="text-amber-500">{silences.length} long silence{silences.length === 1 ? '' : 's'}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default WaveformOverview;
@@ -1,3 +1,4 @@
+/// <reference types="vite/client" />
 
 import React from 'react';
 import ReactDOM from 'react-dom/client';
@@ -8,6 +9,14 @@ if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// The dev server rebuilds modules on every change, so only builds get the
+// offline cache. Without Vite (the importmap setup) there is no env at all.
+if ('serviceWorker' in navigator && !import.meta.env?.DEV) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('./sw.js').catch(err => console.error('Service worker error:', err));
+  });
+}
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
@@ -0,0 +1,165 @@
+// Keeps the app shell and everything it loads in the cache, so the studio
+// opens offline and browser voices, history and export keep working. Gemini
+// calls are never cached; the app queues cloned-voice renders instead.
+//
+// There is no build manifest to precache from, so the worker reads
+// index.html and follows what it references: the importmap, scripts,
+// stylesheets, and the imports and url()s inside those. That covers both the
+// Vite build and the CDN importmap setup, including modules the app only
+// imports on demand (MP3 encoder, ZIP, PDF).
+
+const CACHE = 'voice-studio-v1';
+const SHELL = ['./', './manifest.webmanifest', './icon.svg'];
+// Loaded from a URL string rather than an import, so the crawl can't see it.
+// Keep in step with PDF_WORKER_SRC in utils/documents.ts.
+const UNREFERENCED = ['https://esm.sh/pdfjs-dist@4.10.38/build/pdf.worker.min.mjs'];
+const ASSET_HOSTS = ['esm.sh', 'cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+const MAX_ENTRIES = 400;
+// Everything cached at runtime counts too. Stale-while-revalidate re-puts an
+// entry each time it's used, so the oldest entries are the ones not needed lately.
+const MAX_CACHED = 600;
+
+const HTML_REFS = /(?:src|href)=["']([^"']+)["']/g;
+const IMPORT_MAP = /<script type="importmap">([\s\S]*?)<\/script>/;
+const JS_REFS = /(?:\bfrom\s*|\bimport\s*\(?\s*)["']([^"']+)["']/g;
+const CSS_REFS = /url\(\s*["']?([^"')]+)["']?\s*\)|@import\s+["']([^"']+)["']/g;
+
+const isCacheable = (url) => url.origin === self.location.origin || ASSET_HOSTS.includes(url.hostname);
+const isUsable = (response) => response.ok || response.type === 'opaque';
+
+function referencesIn(body, type, base) {
+  const refs = [];
+  const add = (ref) => {
+    // Bare specifiers and directory mappings aren't fetchable URLs.
+    if (!ref || !/^(\.|\/|https?:)/.test(ref) || ref.endsWith('/')) return;
+    try {
+      const url = new URL(ref, base);
+      url.hash = '';
+      if (isCacheable(url)) refs.push(url);
+    } catch {
+      // Not a URL.
+    }
+  };
+  if (type.includes('html')) {
+    // In HTML a plain "index.tsx" is a relative path, not a bare specifier.
+    for (const m of body.matchAll(HTML_REFS)) add(/^([a-z][\w+.-]*:|[./])/i.test(m[1]) ? m[1] : `./${m[1]}`);
+    const map = IMPORT_MAP.exec(body);
+    if (map) {
+      try {
+        Object.values(JSON.parse(map[1]).imports ?? {}).forEach(add);
+      } catch {
+        // A broken importmap breaks the page anyway.
+      }
+    }
+  } else if (type.includes('javascript')) {
+    for (const m of body.matchAll(JS_REFS)) add(m[1]);
+  } else if (type.includes('css')) {
+    for (const m of body.matchAll(CSS_REFS)) add(m[1] ?? m[2]);
+  }
+  return refs;
+}
+
+// Hosts without CORS headers come back opaque, which scripts, stylesheets and
+// fonts can still use, though their imports can't be followed.
+async function fetchForCache(url) {
+  try {
+    return await fetch(url, { mode: 'cors', credentials: 'omit' });
+  } catch {
+    return fetch(url, { mode: 'no-cors' });
+  }
+}
+
+const rootUrls = () => [...SHELL, ...UNREFERENCED].map(path => new URL(path, self.registration.scope));
+
+// Drops the oldest entries over the cap, never the roots the crawl starts from.
+async function trimCache(cache) {
+  const roots = new Set(rootUrls().map(url => url.href));
+  const keys = await cache.keys();
+  const excess = keys.filter(request => !roots.has(request.url)).slice(0, Math.max(0, keys.length - MAX_CACHED));
+  await Promise.all(excess.map(request => cache.delete(request)));
+}
+
+// Walks the shell's references. Anything already cached is read from the
+// cache (module URLs are versioned), so a re-run only downloads what's new.
+async function precache() {
+  const cache = await caches.open(CACHE);
+  const queue = rootUrls();
+  const seen = new Set();
+  while (queue.length > 0 && seen.size < MAX_ENTRIES) {
+    const batch = queue.splice(0, 6).filter(url => !seen.has(url.href));
+    batch.forEach(url => seen.add(url.href));
+    await Promise.all(batch.map(async url => {
+      try {
+        let response = await cache.match(url.href);
+        if (!response) {
+          response = await fetchForCache(url.href);
+          if (!isUsable(response)) return;
+          await cache.put(url.href, response.clone());
+        }
+        const type = response.headers.get('content-type') ?? '';
+        if (response.type !== 'opaque' && /html|javascript|css/.test(type)) {
+          queue.push(...referencesIn(await response.text(), type, response.url || url.href));
+        }
+      } catch {
+        // Offline or blocked; the fetch handler caches it on first use.
+      }
+    }));
+  }
+  await trimCache(cache);
+}
+
+self.addEventListener('install', event => {
+  self.skipWaiting();
+  event.waitUntil(precache());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+// Pages come from the network when there is one, so a new deploy shows up on
+// the next load; a changed page is crawled again for its new assets.
+async function networkFirst(event) {
+  const cache = await caches.open(CACHE);
+  const shell = new URL('./', self.registration.scope).href;
+  try {
+    const response = await fetch(event.request);
+    if (response.ok) {
+      const previous = await cache.match(shell);
+      const [next, old] = await Promise.all([response.clone().text(), previous?.text()]);
+      if (next !== old) {
+        await cache.put(shell, response.clone());
+        event.waitUntil(precache());
+      }
+    }
+    return response;
+  } catch (err) {
+    const cached = await cache.match(shell);
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+async function staleWhileRevalidate(event) {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(event.request);
+  const update = fetch(event.request).then(response => {
+    if (isUsable(response)) cache.put(event.request, response.clone()).then(() => trimCache(cache)).catch(() => undefined);
+    return response;
+  });
+  if (!cached) return update;
+  event.waitUntil(update.catch(() => undefined));
+  return cached;
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (!isCacheable(url)) return;
+  event.respondWith(request.mode === 'navigate' ? networkFirst(event) : staleWhileRevalidate(event));
+});
@@ -0,0 +1,55 @@
+import { LexiconEntry, VoiceOption } from '../types';
+import { concatAudioBuffers } from '../utils/audio';
+import { applyLexiconToRuns, entriesForLang } from '../utils/lexicon';
+import { parseMarkup, runsInRange } from '../utils/markup';
+import { buildChunks, splitSentences } from '../utils/segmenter';
+import { SynthesisEngine } from './engine';
+import { renderRuns } from './speechQueue';
+
+export interface BatchTarget {
+  engine: SynthesisEngine;
+  voice: VoiceOption;
+  rate: number;
+  pitch: number;
+}
+
+// Renders one row the way Generate renders a script on a buffer engine:
+// sentence chunks sized for the engine, markup and lexicon applied, joined.
+export async function renderBatchRow(
+  text: string,
+  target: BatchTarget,
+  lexicon: LexiconEntry[],
+  ctx: BaseAudioContext,
+  signal: AbortSignal,
+): Promise<AudioBuffer> {
+  const { engine, voice } = target;
+  // Live voices only exist as sound from the speakers, so there is nothing to collect.
+  if (engine.capabilities.output !== 'buffer') throw new Error('Browser voices cannot be batch rendered');
+  const markup = parseMarkup(text);
+  const entries = entriesForLang(lexicon, voice.lang || null);
+  const settings = { voice, rate: target.rate, pitch: target.pitch };
+
+  const parts: AudioBuffer[] = [];
+  for (const chunk of buildChunks(splitSentences(text), engine.capabilities.maxChunkChars)) {
+    const runs = applyLexiconToRuns(runsInRange(markup.runs, chunk.start, chunk.end), entries);
+    parts.push(await renderRuns(engine, runs, settings, ctx, { withCues: markup.hasMarkup, signal }));
+  }
+  const joined = concatAudioBuffers(parts);
+  if (!joined) throw new Error('Nothing to render');
+  return joined;
+}
+
+// Works through the items on a fixed number of lanes. The worker reports its
+// own failures; an abort stops lanes from picking up new items.
+export async function runBatch<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>,
+  signal: AbortSignal,
+): Promise<void> {
+  let next = 0;
+  const lane = async () => {
+    while (!signal.aborted && next < items.length) await worker(items[next++]);
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, lane));
+}
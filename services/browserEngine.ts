@@ -0,0 +1,66 @@
+import { VoiceOption } from '../types';
+import { MAX_SENTENCE_CHARS } from '../utils/segmenter';
+import { SynthesisEngine } from './engine';
+
+// The Web Speech API. Speaks live through the OS voices, so audio only exists
+// as a file when the tab is captured.
+export function createBrowserEngine(synth: SpeechSynthesis): SynthesisEngine {
+  return {
+    id: 'browser',
+    label: 'Browser Voices',
+    capabilities: {
+      output: 'live',
+      wordBoundaries: true,
+      deliveryCues: false,
+      prosody: true,
+      needsNetwork: false,
+      maxChunkChars: MAX_SENTENCE_CHARS,
+    },
+    listVoices: async () => {
+      // voiceURI should be unique, but some platforms repeat it.
+      const seen = new Map<string, number>();
+      return synth.getVoices()
+        .map((v): VoiceOption => {
+          const key = v.voiceURI || v.name;
+          const n = (seen.get(key) ?? 0) + 1;
+          seen.set(key, n);
+          return {
+            id: `browser:${key}${n > 1 ? `#${n}` : ''}`,
+            voice: v,
+            name: v.name,
+            lang: v.lang,
+            localService: v.localService,
+            engine: 'browser',
+          };
+        })
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+    onVoicesChanged: (listener) => {
+      synth.addEventListener('voiceschanged', listener);
+      return () => synth.removeEventListener('voiceschanged', listener);
+    },
+    speak: (request, onBoundary) => new Promise<void>((resolve, reject) => {
+      const utterance = new SpeechSynthesisUtterance(request.text);
+      if (request.voice?.voice) utterance.voice = request.voice.voice;
+      utterance.rate = Math.min(10, Math.max(0.1, request.rate));
+      utterance.pitch = Math.min(2, Math.max(0, request.pitch));
+      utterance.volume = request.volume ?? 1;
+      utterance.onboundary = (e) => {
+        if (e.name === 'word') onBoundary?.(e.charIndex);
+      };
+      utterance.onend = () => resolve();
+      utterance.onerror = (e) => {
+        if (e.error === 'interrupted' || e.error === 'canceled') resolve();
+        else reject(new Error(`Speech synthesis failed: ${e.error}`));
+      };
+      synth.speak(utterance);
+    }),
+    pause: () => synth.pause(),
+    resume: () => synth.resume(),
+    cancel: () => {
+      synth.cancel();
+      // Chrome keeps the paused flag across cancel(), which would mute the next run.
+      if (synth.paused) synth.resume();
+    },
+  };
+}
@@ -0,0 +1,101 @@
+import { ClonedVoice } from '../types';
+import { STORES, getAll, getOne, put, putMany, remove } from '../utils/db';
+
+const LEGACY_CLONES_KEY = 'voice_studio_v2_clones';
+const PROFILE_FORMAT = 'voice-studio-profile';
+const PROFILE_VERSION = 1;
+
+interface VoiceProfileFile {
+  format: typeof PROFILE_FORMAT;
+  version: number;
+  voices: Omit<ClonedVoice, 'id'>[];
+}
+
+// Moves clones saved by the pre-IndexedDB build out of localStorage. The key
+// is only removed once every record has been written.
+async function migrateLegacyClones(): Promise<void> {
+  const raw = localStorage.getItem(LEGACY_CLONES_KEY);
+  if (!raw) return;
+  try {
+    const legacy: ClonedVoice[] = JSON.parse(raw);
+    const now = Date.now();
+    await putMany(STORES.clones, legacy.map((v, i) => ({ ...v, createdAt: v.createdAt ?? now - i })));
+    localStorage.removeItem(LEGACY_CLONES_KEY);
+  } catch (err) {
+    console.error('Clone migration failed:', err);
+  }
+}
+
+export async function loadClones(): Promise<ClonedVoice[]> {
+  await migrateLegacyClones();
+  const clones = await getAll<ClonedVoice>(STORES.clones);
+  return clones.sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0));
+}
+
+export async function saveClone(voice: ClonedVoice): Promise<void> {
+  await put(STORES.clones, { ...voice, createdAt: voice.createdAt ?? Date.now() });
+}
+
+export async function renameClone(id: string, name: string): Promise<void> {
+  const existing = await getOne<ClonedVoice>(STORES.clones, id);
+  if (!existing) return;
+  await put(STORES.clones, { ...existing, name });
+}
+
+export async function deleteClone(id: string): Promise<void> {
+  await remove(STORES.clones, id);
+}
+
+// Gives an imported voice a name that doesn't collide with what's already
+// loaded, since the rest of the app still selects clones by name.
+export function uniqueCloneName(name: string, taken: Set<string>): string {
+  if (!taken.has(name)) return name;
+  let n = 2;
+  while (taken.has(`${name} (${n})`)) n++;
+  return `${name} (${n})`;
+}
+
+// --- Portable Profiles ---
+
+export function exportCloneProfile(voices: ClonedVoice[]): Blob {
+  const file: VoiceProfileFile = {
+    format: PROFILE_FORMAT,
+    version: PROFILE_VERSION,
+    voices: voices.map(({ name, sampleBase64, mimeType, createdAt }) => ({ name, sampleBase64, mimeType, createdAt })),
+  };
+  return new Blob([JSON.stringify(file)], { type: 'application/json' });
+}
+
+export async function importCloneProfile(file: File, existing: ClonedVoice[]): Promise<ClonedVoice[]> {
+  let parsed: VoiceProfileFile;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new Error('Profile file is not valid JSON.');
+  }
+  if (parsed?.format !== PROFILE_FORMAT || !Array.isArray(parsed.voices)) {
+    throw new Error('Not a Voice Studio profile file.');
+  }
+  if (parsed.version > PROFILE_VERSION) {
+    throw new Error('Profile was exported by a newer version of Voice Studio.');
+  }
+
+  const taken = new Set(existing.map(v => v.name));
+  const imported: ClonedVoice[] = [];
+  parsed.voices.forEach(v => {
+    if (!v || typeof v.name !== 'string' || typeof v.sampleBase64 !== 'string' || typeof v.mimeType !== 'string') return;
+    const name = uniqueCloneName(v.name, taken);
+    taken.add(name);
+    imported.push({
+      id: crypto.randomUUID(),
+      name,
+      sampleBase64: v.sampleBase64,
+      mimeType: v.mimeType,
+      createdAt: Date.now(),
+    });
+  });
+  if (imported.length === 0) throw new Error('Profile contains no usable voices.');
+
+  await putMany(STORES.clones, imported);
+  return imported;
+}
@@ -0,0 +1,57 @@
+import { EngineId, VoiceOption } from '../types';
+
+// --- Synthesis Engines ---
+// Every TTS backend sits behind this interface. Engines come in two shapes:
+// 'buffer' engines return audio from synthesize() that the app plays, caches
+// and exports itself; 'live' engines speak straight to the speakers through
+// speak() and can only be recorded with tab capture.
+
+export interface EngineCapabilities {
+  output: 'buffer' | 'live';
+  // Reports the word being spoken while it plays.
+  wordBoundaries: boolean;
+  // Understands the bracketed delivery cues from runsToPrompt; otherwise
+  // markup is rendered run by run with breaks as silence.
+  deliveryCues: boolean;
+  needsNetwork: boolean;
+  // Applies the rate and pitch of a request itself. Otherwise the app
+  // time-stretches and pitch-shifts the rendered audio.
+  prosody: boolean;
+  // Largest chunk of text worth sending in one request.
+  maxChunkChars: number;
+}
+
+export interface SynthesisRequest {
+  text: string;
+  voice?: VoiceOption;
+  rate: number;
+  pitch: number;
+  volume?: number;
+  withCues?: boolean;
+  // Aborting rejects the request with an AbortError DOMException.
+  signal?: AbortSignal;
+  // Called before an engine retries a failed request.
+  onRetry?: (attempt: number, delayMs: number) => void;
+}
+
+export interface SynthesisEngine {
+  id: EngineId;
+  label: string;
+  capabilities: EngineCapabilities;
+  listVoices: () => Promise<VoiceOption[]>;
+  // Subscribes to voice list changes; returns the unsubscribe function.
+  onVoicesChanged?: (listener: () => void) => () => void;
+  // Buffer engines only.
+  synthesize?: (request: SynthesisRequest, ctx: BaseAudioContext) => Promise<AudioBuffer>;
+  // Live engines only. Resolves when the request has been spoken or cancelled.
+  speak?: (request: SynthesisRequest, onBoundary?: (charIndex: number) => void) => Promise<void>;
+  pause?: () => void;
+  resume?: () => void;
+  // Drops whatever the engine is doing; pending synthesize() calls reject
+  // with an AbortError.
+  cancel: () => void;
+}
+
+export const cancelledError = () => new DOMException('Synthesis cancelled', 'AbortError');
+
+export const isAbortError = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
@@ -0,0 +1,306 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import { ClonedVoice } from '../types';
+import { blobToBase64, decodeAudioBlob, decodeAudioData, decodeBase64, encodeMp3 } from '../utils/audio';
+import { isRecord } from '../utils/guards';
+import { cloneVoiceId } from '../utils/voices';
+import { SynthesisEngine, cancelledError, isAbortError } from './engine';
+
+export const GEMINI_SAMPLE_RATE = 24000;
+// Keeps each request comfortably inside the model's audio output limit.
+export const GEMINI_CHUNK_CHARS = 800;
+
+// Explains the bracketed cues produced by runsToPrompt in utils/markup.ts.
+const DELIVERY_CUES_INSTRUCTION =
+  'The text contains delivery cues in square brackets. [pause 500ms] is a silence of that length. ' +
+  '[cue]words[/] applies the cue (emphasis, slower, faster, higher pitch, lower pitch, understated, ' +
+  'or pronounce /phonetic/) to the enclosed words only. Follow every cue but never read the brackets aloud.';
+
+const MODEL = 'gemini-2.5-flash-native-audio-preview-12-2025';
+const TRANSCRIBE_MODEL = 'gemini-2.5-flash';
+const REQUEST_TIMEOUT_MS = 60_000;
+const TRANSCRIBE_TIMEOUT_MS = 180_000;
+const MAX_ATTEMPTS = 4;
+const BASE_RETRY_DELAY_MS = 1_000;
+
+// User-facing failure messages; these end up in the status bar.
+export const GEMINI_ERRORS = {
+  missingKey: 'API Key Missing',
+  badKey: 'API Key Rejected',
+  quota: 'Quota Exceeded',
+  safety: 'Blocked By Safety Filters',
+  malformed: 'Malformed Audio Response',
+  timeout: 'Request Timed Out',
+  network: 'Network Error',
+  noSpeech: 'No Speech Found',
+  tooLarge: 'Audio File Too Large',
+  unknown: 'Engine Error',
+} as const;
+
+// Races a request against the abort signal and a timeout. The SDK can't cancel
+// the underlying fetch, but whatever it returns after this settles is ignored.
+function withDeadline<T>(promise: Promise<T>, signal: AbortSignal, timeoutMs: number): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) return reject(cancelledError());
+    const timer = setTimeout(() => reject(new Error(GEMINI_ERRORS.timeout)), timeoutMs);
+    const onAbort = () => reject(cancelledError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', onAbort);
+    });
+  });
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(cancelledError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Sorts a failure into the message the user sees and whether another
+// attempt could help.
+function classifyError(err: unknown): { message: string; retry: boolean } {
+  if (err instanceof Error && (Object.values(GEMINI_ERRORS) as string[]).includes(err.message)) {
+    return { message: err.message, retry: err.message === GEMINI_ERRORS.timeout || err.message === GEMINI_ERRORS.malformed };
+  }
+  const details = isRecord(err) ? err : {};
+  const status = Number(details.status ?? details.code) || 0;
+  const text = String(details.message ?? err);
+  if (status === 401 || status === 403 || /API key not valid|PERMISSION_DENIED|API_KEY_INVALID/i.test(text)) {
+    return { message: GEMINI_ERRORS.badKey, retry: false };
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(text)) {
+    return { message: GEMINI_ERRORS.quota, retry: true };
+  }
+  if ([500, 502, 503, 504].includes(status) || /UNAVAILABLE|INTERNAL|overloaded|DEADLINE_EXCEEDED/i.test(text)) {
+    return { message: GEMINI_ERRORS.unknown, retry: true };
+  }
+  if (err instanceof TypeError || /Failed to fetch|NetworkError|network/i.test(text)) {
+    return { message: GEMINI_ERRORS.network, retry: true };
+  }
+  return { message: GEMINI_ERRORS.unknown, retry: false };
+}
+
+// The parts of a generateContent response read here.
+interface ResponsePart {
+  text?: string;
+  inlineData?: { data?: string; mimeType?: string };
+}
+
+interface ResponseCandidate {
+  finishReason?: string;
+  content?: { parts?: ResponsePart[] };
+}
+
+interface ContentResponse {
+  promptFeedback?: { blockReason?: string };
+  candidates?: ResponseCandidate[];
+}
+
+const isContentResponse = (value: unknown): value is ContentResponse =>
+  isRecord(value) && (value.candidates === undefined || Array.isArray(value.candidates));
+
+// The parts of the first candidate, telling safety blocks apart from a
+// response that isn't usable.
+function responseParts(response: unknown): ResponsePart[] {
+  if (!isContentResponse(response)) throw new Error(GEMINI_ERRORS.malformed);
+  if (response.promptFeedback?.blockReason) throw new Error(GEMINI_ERRORS.safety);
+  const candidate = response.candidates?.[0];
+  if (candidate?.finishReason === 'SAFETY' || candidate?.finishReason === 'PROHIBITED_CONTENT') {
+    throw new Error(GEMINI_ERRORS.safety);
+  }
+  const parts = candidate?.content?.parts;
+  return Array.isArray(parts) ? parts.filter(isRecord) : [];
+}
+
+// Pulls the PCM out of a response; missing or unusable audio is malformed.
+function extractAudio(response: unknown): { data: Uint8Array; sampleRate: number } {
+  const inline = responseParts(response).find(p => p.inlineData?.data)?.inlineData;
+  if (!inline?.data) throw new Error(GEMINI_ERRORS.malformed);
+
+  let bytes: Uint8Array;
+  try {
+    bytes = decodeBase64(inline.data);
+  } catch {
+    throw new Error(GEMINI_ERRORS.malformed);
+  }
+  // 16-bit samples: an odd trailing byte is dropped, an empty payload is useless.
+  if (bytes.length < 2) throw new Error(GEMINI_ERRORS.malformed);
+  const rate = Number(/rate=(\d+)/.exec(inline.mimeType ?? '')?.[1]) || GEMINI_SAMPLE_RATE;
+  return { data: bytes.slice(0, bytes.length - (bytes.length % 2)), sampleRate: rate };
+}
+
+interface RetryOptions {
+  signal: AbortSignal;
+  onRetry?: (attempt: number, delayMs: number) => void;
+}
+
+// Rate limits and transient failures are retried with exponential backoff;
+// anything else fails with the message the user sees.
+async function withRetries<T>(request: () => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      const { message, retry } = classifyError(err);
+      if (!retry || attempt >= MAX_ATTEMPTS) {
+        console.error('Gemini request failed:', err);
+        throw new Error(message, { cause: err });
+      }
+      const delay = BASE_RETRY_DELAY_MS * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5);
+      options.onRetry?.(attempt, delay);
+      await sleep(delay, options.signal);
+    }
+  }
+}
+
+function createClient(): GoogleGenAI {
+  const apiKey = process.env.API_KEY || '';
+  if (!apiKey) throw new Error(GEMINI_ERRORS.missingKey);
+  return new GoogleGenAI({ apiKey });
+}
+
+// Renders one piece of text in the clone's voice and returns it decoded.
+async function synthesizeWithClone(
+  clone: ClonedVoice,
+  text: string,
+  ctx: BaseAudioContext,
+  options: RetryOptions & { withCues?: boolean },
+): Promise<AudioBuffer> {
+  const ai = createClient();
+  const cues = options.withCues ? ` ${DELIVERY_CUES_INSTRUCTION}` : '';
+
+  return withRetries(async () => {
+    const response = await withDeadline(ai.models.generateContent({
+      model: MODEL,
+      contents: {
+        parts: [
+          { inlineData: { data: clone.sampleBase64, mimeType: clone.mimeType } },
+          { text: `Synthesize this text using the provided voice identity exactly. Output raw audio only.${cues} Text: "${text}"` }
+        ]
+      },
+      config: { responseModalities: [Modality.AUDIO] }
+    }), options.signal, REQUEST_TIMEOUT_MS);
+
+    const audio = extractAudio(response);
+    return await decodeAudioData(audio.data, ctx, audio.sampleRate, 1);
+  }, options);
+}
+
+// --- Transcription ---
+
+// Speaker lines use the dialogue tag format, so a multi-voice take can be
+// re-voiced in script mode.
+const TRANSCRIBE_INSTRUCTION =
+  'Transcribe the speech in this audio word for word, in the language it is spoken in, with normal punctuation. ' +
+  'Start a new paragraph when the topic changes or after a long pause. If more than one person speaks, put each ' +
+  'turn on its own line starting with "SPEAKER 1: ", "SPEAKER 2: " and so on. Output only the transcript: no ' +
+  'timestamps, notes or descriptions of sounds. If there is no speech, output nothing.';
+
+// Inline request data is capped at about 20 MB.
+const MAX_INLINE_BYTES = 19 * 1024 * 1024;
+const INLINE_AUDIO_TYPES = ['audio/wav', 'audio/x-wav', 'audio/mp3', 'audio/mpeg', 'audio/aiff', 'audio/aac', 'audio/ogg', 'audio/flac'];
+const SPEECH_SAMPLE_RATE = 16000;
+
+// Files in formats the API takes go as they are. Anything else the browser can
+// decode (WebM and M4A recordings, mostly) is re-encoded as mono speech-rate
+// MP3, which also keeps long takes under the size cap.
+async function prepareAudio(file: Blob): Promise<Blob> {
+  if (INLINE_AUDIO_TYPES.includes(file.type) && file.size <= MAX_INLINE_BYTES) return file;
+  let decoded: AudioBuffer;
+  try {
+    decoded = await decodeAudioBlob(file);
+  } catch {
+    throw new Error('Unsupported Audio File');
+  }
+  const offline = new OfflineAudioContext(1, Math.max(1, Math.ceil(decoded.duration * SPEECH_SAMPLE_RATE)), SPEECH_SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start();
+  const mp3 = encodeMp3(await offline.startRendering(), 48);
+  if (mp3.size > MAX_INLINE_BYTES) throw new Error(GEMINI_ERRORS.tooLarge);
+  return mp3;
+}
+
+function extractText(response: unknown): string {
+  const text = responseParts(response).map(p => typeof p.text === 'string' ? p.text : '').join('').trim();
+  if (!text) throw new Error(GEMINI_ERRORS.noSpeech);
+  return text;
+}
+
+// Speech to text for an uploaded take, with the same retry policy as synthesis.
+export async function transcribeAudio(file: Blob, options: RetryOptions): Promise<string> {
+  const ai = createClient();
+  const audio = await prepareAudio(file);
+  const data = await blobToBase64(audio);
+
+  return withRetries(async () => {
+    const response = await withDeadline(ai.models.generateContent({
+      model: TRANSCRIBE_MODEL,
+      contents: {
+        parts: [
+          { inlineData: { data, mimeType: audio.type || 'audio/mpeg' } },
+          { text: TRANSCRIBE_INSTRUCTION },
+        ]
+      },
+    }), options.signal, TRANSCRIBE_TIMEOUT_MS);
+    return extractText(response);
+  }, options);
+}
+
+// Cloned voices. Clones live in app state, so the engine reads them through
+// a getter rather than keeping its own copy.
+export function createGeminiEngine(getClones: () => ClonedVoice[]): SynthesisEngine {
+  // cancel() aborts every request still in flight, including ones waiting to retry.
+  const inFlight = new Set<AbortController>();
+
+  return {
+    id: 'gemini',
+    label: 'Gemini Clones',
+    capabilities: {
+      output: 'buffer',
+      wordBoundaries: false,
+      deliveryCues: true,
+      prosody: false,
+      needsNetwork: true,
+      maxChunkChars: GEMINI_CHUNK_CHARS,
+    },
+    listVoices: async () => getClones().map(c => ({
+      id: cloneVoiceId(c), voice: null, name: c.name, lang: '', isCloned: true, localService: false, engine: 'gemini' as const,
+    })),
+    synthesize: async (request, ctx) => {
+      const clone = getClones().find(c => cloneVoiceId(c) === request.voice?.id);
+      if (!clone) throw new Error(`Cloned voice "${request.voice?.name ?? ''}" not found`);
+      const controller = new AbortController();
+      const forward = () => controller.abort();
+      request.signal?.addEventListener('abort', forward, { once: true });
+      if (request.signal?.aborted) controller.abort();
+      inFlight.add(controller);
+      try {
+        return await synthesizeWithClone(clone, request.text, ctx, {
+          withCues: request.withCues,
+          signal: controller.signal,
+          onRetry: request.onRetry,
+        });
+      } finally {
+        inFlight.delete(controller);
+        request.signal?.removeEventListener('abort', forward);
+      }
+    },
+    cancel: () => {
+      inFlight.forEach(c => c.abort());
+      inFlight.clear();
+    },
+  };
+}
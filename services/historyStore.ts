@@ -0,0 +1,75 @@
+import { HistoryItem } from '../types';
+import { STORES, getAll, getOne, put, putMany, removeMany } from '../utils/db';
+
+const LEGACY_HISTORY_KEY = 'voice_studio_v2_history';
+const ARCHIVE_FORMAT = 'voice-studio-archive';
+const ARCHIVE_VERSION = 1;
+
+// Rendered audio is kept as raw channel data under the history entry's id, so
+// a replay rebuilds the exact buffer without decoding or calling the engine.
+interface CachedRender {
+  id: string;
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+async function migrateLegacyHistory(): Promise<void> {
+  const raw = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!raw) return;
+  try {
+    await putMany(STORES.history, JSON.parse(raw) as HistoryItem[]);
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+  } catch (err) {
+    console.error('History migration failed:', err);
+  }
+}
+
+export async function loadHistory(): Promise<HistoryItem[]> {
+  await migrateLegacyHistory();
+  const items = await getAll<HistoryItem>(STORES.history);
+  return items.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+export async function saveHistoryItem(item: HistoryItem): Promise<void> {
+  await put(STORES.history, item);
+}
+
+export async function updateHistoryItems(items: HistoryItem[]): Promise<void> {
+  await putMany(STORES.history, items);
+}
+
+export async function deleteHistoryItems(ids: string[]): Promise<void> {
+  await removeMany(STORES.history, ids);
+  await removeMany(STORES.renders, ids);
+}
+
+// --- Audio Cache ---
+
+export async function saveRender(id: string, buffer: AudioBuffer): Promise<void> {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c).slice());
+  await put<CachedRender>(STORES.renders, { id, sampleRate: buffer.sampleRate, channels });
+}
+
+export async function loadRender(id: string): Promise<AudioBuffer | null> {
+  const cached = await getOne<CachedRender>(STORES.renders, id);
+  if (!cached || cached.channels.length === 0) return null;
+  const buffer = new AudioBuffer({
+    length: cached.channels[0].length,
+    numberOfChannels: cached.channels.length,
+    sampleRate: cached.sampleRate,
+  });
+  cached.channels.forEach((data, c) => buffer.copyToChannel(data, c));
+  return buffer;
+}
+
+// --- Export ---
+
+// Scripts, settings and organisation only; audio is exported per render.
+export function exportHistory(items: HistoryItem[]): Blob {
+  const file = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    items: items.map(({ audioDuration, ...item }) => item),
+  };
+  return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+}
@@ -0,0 +1,84 @@
+import { VoiceOption } from '../types';
+import { SynthesisEngine, cancelledError } from './engine';
+
+// Offline stand-in for a cloud engine: each word becomes a short tone whose
+// length follows the word and whose note is picked from the word itself, so
+// the same text always renders the same audio. Useful for exercising the
+// queue, captions and export without a network or API key.
+
+const MOCK_VOICES: { id: string; name: string; baseHz: number }[] = [
+  { id: 'mock:low', name: 'Test Tone · Low', baseHz: 150 },
+  { id: 'mock:mid', name: 'Test Tone · Mid', baseHz: 220 },
+  { id: 'mock:high', name: 'Test Tone · High', baseHz: 330 },
+];
+
+// Pentatonic steps keep consecutive words from sounding harsh.
+const STEPS = [1, 9 / 8, 5 / 4, 3 / 2, 5 / 3];
+
+function wordHash(word: string): number {
+  let h = 0;
+  for (let i = 0; i < word.length; i++) h = (h * 31 + word.charCodeAt(i)) >>> 0;
+  return h;
+}
+
+function renderTones(text: string, ctx: BaseAudioContext, baseHz: number, rate: number, pitch: number, volume: number): AudioBuffer {
+  const sampleRate = ctx.sampleRate;
+  const words = text.match(/\S+/g) ?? [];
+  const segments = words.map(word => {
+    const letters = word.replace(/[^\p{L}\p{N}]/gu, '').length;
+    const pause = /[.!?…]["'”’)]*$/.test(word) ? 0.3 : /[,;:]$/.test(word) ? 0.15 : 0.06;
+    return {
+      seconds: (0.12 + 0.055 * letters) / rate,
+      pause: pause / rate,
+      hz: baseHz * pitch * STEPS[wordHash(word.toLowerCase()) % STEPS.length],
+      silent: letters === 0,
+    };
+  });
+  const total = segments.reduce((n, s) => n + s.seconds + s.pause, 0) || 0.1;
+  const buffer = ctx.createBuffer(1, Math.ceil(total * sampleRate), sampleRate);
+  const data = buffer.getChannelData(0);
+  const ramp = Math.floor(sampleRate * 0.01);
+
+  let offset = 0;
+  segments.forEach(seg => {
+    const length = Math.floor(seg.seconds * sampleRate);
+    if (!seg.silent) {
+      for (let i = 0; i < length && offset + i < data.length; i++) {
+        const envelope = Math.min(1, i / ramp, (length - i) / ramp);
+        data[offset + i] = 0.3 * volume * envelope * Math.sin((2 * Math.PI * seg.hz * i) / sampleRate);
+      }
+    }
+    offset += length + Math.floor(seg.pause * sampleRate);
+  });
+  return buffer;
+}
+
+export function createMockEngine(options: { latencyMs?: number } = {}): SynthesisEngine {
+  const latencyMs = options.latencyMs ?? 150;
+  let generation = 0;
+
+  return {
+    id: 'mock',
+    label: 'Test Tones',
+    capabilities: {
+      output: 'buffer',
+      wordBoundaries: false,
+      deliveryCues: false,
+      prosody: true,
+      needsNetwork: false,
+      maxChunkChars: 400,
+    },
+    listVoices: async () => MOCK_VOICES.map((v): VoiceOption => ({
+      id: v.id, voice: null, name: v.name, lang: 'en-US', localService: true, engine: 'mock',
+    })),
+    synthesize: async (request, ctx) => {
+      const voice = MOCK_VOICES.find(v => v.id === request.voice?.id) ?? MOCK_VOICES[1];
+      const started = generation;
+      // A little latency keeps the "synthesizing" states and prefetching visible.
+      if (latencyMs > 0) await new Promise(resolve => setTimeout(resolve, latencyMs));
+      if (started !== generation || request.signal?.aborted) throw cancelledError();
+      return renderTones(request.text, ctx, voice.baseHz, request.rate, request.pitch, request.volume ?? 1);
+    },
+    cancel: () => { generation++; },
+  };
+}
@@ -0,0 +1,69 @@
+import { LexiconEntry, QueuedChunk, QueuedRender, VoiceOption } from '../types';
+import { concatAudioBuffers } from '../utils/audio';
+import { booleanOr, finiteOr, isRecord } from '../utils/guards';
+import { applyLexiconToRuns, entriesForLang } from '../utils/lexicon';
+import { parseMarkup, runsInRange } from '../utils/markup';
+import { findVoice, migrateCast } from '../utils/voices';
+import { SynthesisEngine } from './engine';
+import { renderRuns } from './speechQueue';
+
+// Renders a script queued while offline, chunk by chunk with the voices that
+// were planned for it.
+export async function renderQueued(
+  item: QueuedRender,
+  voices: VoiceOption[],
+  engines: SynthesisEngine[],
+  lexicon: LexiconEntry[],
+  ctx: BaseAudioContext,
+  signal: AbortSignal,
+): Promise<AudioBuffer> {
+  const markup = parseMarkup(item.text);
+  const parts: AudioBuffer[] = [];
+  for (const chunk of item.chunks) {
+    const voice = findVoice(voices, chunk.voiceId);
+    if (!voice) throw new Error('Queued voice no longer exists');
+    const engine = engines.find(e => e.id === voice.engine);
+    if (!engine || engine.capabilities.output !== 'buffer') throw new Error(`${voice.name} cannot render audio`);
+    const runs = applyLexiconToRuns(runsInRange(markup.runs, chunk.start, chunk.end), entriesForLang(lexicon, voice.lang || null));
+    parts.push(await renderRuns(engine, runs, { voice, rate: chunk.rate, pitch: chunk.pitch }, ctx, { withCues: markup.hasMarkup, signal }));
+  }
+  const joined = concatAudioBuffers(parts);
+  if (!joined) throw new Error('Nothing to render');
+  return joined;
+}
+
+function normalizeChunk(raw: unknown): QueuedChunk | null {
+  if (!isRecord(raw)) return null;
+  const start = finiteOr(raw.start, NaN);
+  const end = finiteOr(raw.end, NaN);
+  if (Number.isNaN(start) || Number.isNaN(end) || typeof raw.voiceId !== 'string') return null;
+  return { start, end, voiceId: raw.voiceId, rate: finiteOr(raw.rate, 1), pitch: finiteOr(raw.pitch, 1) };
+}
+
+function normalizeQueued(raw: unknown): QueuedRender | null {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.text !== 'string') return null;
+  const chunks = Array.isArray(raw.chunks) ? raw.chunks.map(normalizeChunk) : [];
+  if (chunks.length === 0 || chunks.some(c => !c)) return null;
+  const s = isRecord(raw.settings) ? raw.settings : {};
+  return {
+    id: raw.id,
+    text: raw.text,
+    voiceName: String(raw.voiceName ?? ''),
+    settings: {
+      voiceId: String(s.voiceId ?? ''),
+      rate: finiteOr(s.rate, 1),
+      pitch: finiteOr(s.pitch, 1),
+      isDialogueMode: booleanOr(s.isDialogueMode, false),
+      cast: migrateCast(s.cast),
+    },
+    chunks: chunks.filter((c): c is QueuedChunk => !!c),
+    createdAt: finiteOr(raw.createdAt, Date.now()),
+    ...(typeof raw.error === 'string' ? { error: raw.error } : {}),
+  };
+}
+
+// A saved item missing its text or chunk plan can't be rendered, so it's dropped.
+export function normalizeRenderQueue(raw: unknown): QueuedRender[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map(normalizeQueued).filter((item): item is QueuedRender => !!item);
+}
@@ -0,0 +1,278 @@
+import { TextChunk } from '../utils/segmenter';
+import { EmphasisLevel, MarkupRun, SpeechRun, mergeRuns, plainRun, runsToPrompt, sourceOffsetAt } from '../utils/markup';
+import { concatAudioBuffers } from '../utils/audio';
+import { shapeVoice } from '../utils/processing';
+import { VoiceOption } from '../types';
+import { SynthesisEngine, SynthesisRequest } from './engine';
+
+// --- Chunk Players ---
+
+// A player knows how to voice one chunk. `play` resolves when the chunk has
+// finished (or was stopped) and rejects only on a real engine failure.
+export interface ChunkPlayer {
+  play: (chunk: TextChunk, next?: TextChunk) => Promise<void>;
+  prefetch?: (chunk: TextChunk) => void;
+  pause: () => void;
+  resume: () => void;
+  stop: () => void;
+}
+
+export interface VoiceSettings {
+  voice: VoiceOption | undefined;
+  rate: number;
+  pitch: number;
+}
+
+// Emphasis has no engine-neutral equivalent, so it is approximated with prosody.
+const EMPHASIS_PROSODY: Record<EmphasisLevel, { rate: number; pitch: number; volume: number }> = {
+  strong: { rate: 0.85, pitch: 1.15, volume: 1 },
+  moderate: { rate: 0.92, pitch: 1.08, volume: 1 },
+  reduced: { rate: 1.05, pitch: 0.92, volume: 0.75 },
+};
+
+const runProsody = (settings: VoiceSettings, run: SpeechRun) => {
+  const emphasis = run.emphasis ? EMPHASIS_PROSODY[run.emphasis] : { rate: 1, pitch: 1, volume: 1 };
+  return {
+    rate: settings.rate * run.rate * emphasis.rate,
+    pitch: settings.pitch * run.pitch * emphasis.pitch,
+    volume: emphasis.volume,
+  };
+};
+
+const defaultRuns = (chunk: TextChunk): MarkupRun[] => [{ ...plainRun(chunk.text), start: chunk.start, end: chunk.end }];
+
+// Speaks a chunk on a live engine as one request per markup run, with timed
+// gaps for breaks.
+export function createLiveChunkPlayer(
+  engine: SynthesisEngine,
+  settings: VoiceSettings,
+  runsFor: (chunk: TextChunk) => MarkupRun[] = defaultRuns,
+  hooks: {
+    // Source offset of the word the voice has just reached.
+    onWord?: (offset: number) => void;
+  } = {},
+): ChunkPlayer {
+  const speak = engine.speak;
+  if (!speak) throw new Error(`${engine.label} cannot speak live`);
+  let stopped = false;
+  let cancelGap: (() => void) | null = null;
+
+  const gap = (ms: number) => new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    cancelGap = () => { clearTimeout(timer); resolve(); };
+  });
+
+  return {
+    play: async (chunk) => {
+      for (const run of mergeRuns(runsFor(chunk))) {
+        if (stopped) return;
+        if (run.kind === 'break') {
+          await gap(run.ms);
+          continue;
+        }
+        try {
+          await speak({ text: run.text, voice: settings.voice, ...runProsody(settings, run) }, charIndex => {
+            if (!stopped) hooks.onWord?.(sourceOffsetAt(run, charIndex));
+          });
+        } catch (err) {
+          if (!stopped) throw err;
+        }
+      }
+    },
+    pause: () => engine.pause?.(),
+    resume: () => engine.resume?.(),
+    stop: () => {
+      stopped = true;
+      cancelGap?.();
+      engine.cancel();
+    },
+  };
+}
+
+// Renders a chunk's runs on a buffer engine. Engines that follow delivery
+// cues get a single prompt; the rest render run by run, with breaks as silence.
+export async function renderRuns(
+  engine: SynthesisEngine,
+  runs: MarkupRun[],
+  settings: VoiceSettings,
+  ctx: BaseAudioContext,
+  options: Pick<SynthesisRequest, 'withCues' | 'onRetry' | 'signal'> = {},
+): Promise<AudioBuffer> {
+  const synthesize = engine.synthesize;
+  if (!synthesize) throw new Error(`${engine.label} cannot render audio`);
+  const silence = (ms: number) => ctx.createBuffer(1, Math.max(1, Math.round(ctx.sampleRate * ms / 1000)), ctx.sampleRate);
+
+  // A chunk holding nothing but a <break> renders as plain silence.
+  if (runs.every(r => r.kind === 'break')) {
+    return silence(runs.reduce((n, r) => n + (r.kind === 'break' ? r.ms : 0), 0));
+  }
+  // Engines that ignore rate and pitch get them applied to the result.
+  const shape = (buffer: AudioBuffer) => engine.capabilities.prosody ? buffer : shapeVoice(buffer, settings.rate, settings.pitch);
+  if (engine.capabilities.deliveryCues) {
+    return shape(await synthesize({ text: runsToPrompt(runs), voice: settings.voice, rate: settings.rate, pitch: settings.pitch, ...options }, ctx));
+  }
+  const parts: AudioBuffer[] = [];
+  for (const run of mergeRuns(runs)) {
+    parts.push(run.kind === 'break'
+      ? silence(run.ms)
+      : await synthesize({ text: run.text, voice: settings.voice, ...runProsody(settings, run), onRetry: options.onRetry, signal: options.signal }, ctx));
+  }
+  return shape(concatAudioBuffers(parts) ?? silence(0));
+}
+
+// Plays pre-rendered buffers through Web Audio. While chunk N plays, chunk
+// N+1 is already being rendered so there's no gap waiting on the network.
+export function createBufferChunkPlayer(
+  ctx: AudioContext,
+  render: (chunk: TextChunk) => Promise<AudioBuffer>,
+  hooks: {
+    onRendering?: (chunk: TextChunk) => void;
+    onBuffer?: (chunk: TextChunk, buffer: AudioBuffer) => void;
+    // Fired as the buffer starts, with the context time it started at.
+    onPlay?: (chunk: TextChunk, buffer: AudioBuffer, startTime: number) => void;
+    onSource?: (source: AudioBufferSourceNode | null) => void;
+  } = {},
+  output: AudioNode = ctx.destination,
+): ChunkPlayer {
+  const cache = new Map<number, Promise<AudioBuffer>>();
+  let source: AudioBufferSourceNode | null = null;
+  let stopped = false;
+
+  const fetchChunk = (chunk: TextChunk) => {
+    let pending = cache.get(chunk.index);
+    if (!pending) {
+      pending = render(chunk);
+      // Avoid unhandled rejections for prefetches that are never awaited.
+      pending.catch(() => {});
+      cache.set(chunk.index, pending);
+    }
+    return pending;
+  };
+
+  return {
+    play: async (chunk, next) => {
+      hooks.onRendering?.(chunk);
+      const buffer = await fetchChunk(chunk);
+      cache.delete(chunk.index);
+      if (stopped) return;
+      if (next) fetchChunk(next);
+      hooks.onBuffer?.(chunk, buffer);
+
+      await new Promise<void>((resolve) => {
+        source = ctx.createBufferSource();
+        source.buffer = buffer;
+        source.connect(output);
+        source.onended = () => resolve();
+        source.start();
+        hooks.onPlay?.(chunk, buffer, ctx.currentTime);
+        hooks.onSource?.(source);
+      });
+      source = null;
+      hooks.onSource?.(null);
+    },
+    prefetch: (chunk) => {
+      if (!stopped) fetchChunk(chunk);
+    },
+    pause: () => { ctx.suspend(); },
+    resume: () => { ctx.resume(); },
+    stop: () => {
+      stopped = true;
+      cache.clear();
+      if (source) {
+        try { source.stop(); } catch (e) {}
+        source = null;
+      }
+      if (ctx.state === 'suspended') ctx.resume();
+    },
+  };
+}
+
+// Routes each chunk to the player for its speaker, so one queue can mix
+// browser voices and cloned voices. The next chunk is handed to its own
+// player for prefetching even when a different speaker is talking now.
+export function createRoutingChunkPlayer(playerFor: (chunk: TextChunk) => ChunkPlayer): ChunkPlayer {
+  const used = new Set<ChunkPlayer>();
+  let current: ChunkPlayer | null = null;
+
+  return {
+    play: async (chunk, next) => {
+      const player = playerFor(chunk);
+      used.add(player);
+      current = player;
+      const nextPlayer = next ? playerFor(next) : null;
+      if (next && nextPlayer && nextPlayer !== player) {
+        used.add(nextPlayer);
+        nextPlayer.prefetch?.(next);
+      }
+      await player.play(chunk, nextPlayer === player ? next : undefined);
+    },
+    pause: () => current?.pause(),
+    resume: () => current?.resume(),
+    stop: () => used.forEach(p => p.stop()),
+  };
+}
+
+// --- Queue ---
+
+export interface SpeechQueue {
+  pause: () => void;
+  resume: () => void;
+  stop: () => void;
+}
+
+export function runSpeechQueue(
+  chunks: TextChunk[],
+  player: ChunkPlayer,
+  handlers: {
+    onChunkStart: (chunk: TextChunk) => void;
+    onChunkEnd?: (chunk: TextChunk) => void;
+    onComplete: () => void;
+    onError: (err: unknown) => void;
+  },
+): SpeechQueue {
+  let cancelled = false;
+  let paused = false;
+  let resumeWaiter: (() => void) | null = null;
+
+  const waitWhilePaused = () => paused
+    ? new Promise<void>(resolve => { resumeWaiter = resolve; })
+    : Promise.resolve();
+
+  (async () => {
+    try {
+      for (let i = 0; i < chunks.length; i++) {
+        await waitWhilePaused();
+        if (cancelled) return;
+        handlers.onChunkStart(chunks[i]);
+        await player.play(chunks[i], chunks[i + 1]);
+        if (cancelled) return;
+        handlers.onChunkEnd?.(chunks[i]);
+      }
+      handlers.onComplete();
+    } catch (err) {
+      if (!cancelled) handlers.onError(err);
+    }
+  })();
+
+  return {
+    pause: () => {
+      if (paused || cancelled) return;
+      paused = true;
+      player.pause();
+    },
+    resume: () => {
+      if (!paused || cancelled) return;
+      paused = false;
+      player.resume();
+      resumeWaiter?.();
+      resumeWaiter = null;
+    },
+    stop: () => {
+      if (cancelled) return;
+      cancelled = true;
+      player.stop();
+      resumeWaiter?.();
+      resumeWaiter = null;
+    },
+  };
+}
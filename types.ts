@@ -0,0 +1,206 @@
+// --- Shared Types & Interfaces ---
+
+export type EngineId = 'browser' | 'gemini' | 'mock';
+
+// A voice offered by one of the synthesis engines (see services/engine.ts).
+// id is stable across sessions and renames ("browser:<voiceURI>",
+// "gemini:<clone id>"); names can repeat. voice is only set for browser voices.
+export interface VoiceOption {
+  id: string;
+  voice: SpeechSynthesisVoice | null;
+  name: string;
+  lang: string;
+  isCloned?: boolean;
+  // False when synthesis happens on a server (cloud OS voices, clones).
+  localService: boolean;
+  engine: EngineId;
+}
+
+// Everything needed to regenerate a script the way it was first rendered.
+export interface GenerationSettings {
+  voiceId: string;
+  rate: number;
+  pitch: number;
+  isDialogueMode: boolean;
+  cast: Record<string, SpeakerSettings>;
+}
+
+// voiceName is the display label ("Clone: Ava", "Dialogue: ALEX, SAM").
+// Entries saved before the archive moved to IndexedDB have no settings.
+export interface HistoryItem {
+  id: string;
+  text: string;
+  timestamp: number;
+  voiceName: string;
+  settings?: GenerationSettings;
+  folder?: string;
+  tags?: string[];
+  favorite?: boolean;
+  // Set once the render's audio is in the cache.
+  audioDuration?: number;
+  // Word timings of the render, kept so captions can be rebuilt later.
+  timing?: TimedWord[];
+}
+
+export interface ClonedVoice {
+  id: string;
+  name: string;
+  sampleBase64: string;
+  mimeType: string;
+  createdAt?: number;
+}
+
+// A finished render held in memory so it can be exported after playback.
+export interface RenderedAudio {
+  buffer: AudioBuffer;
+  label: string;
+  createdAt: number;
+  timing?: TimedWord[];
+}
+
+export type ExportFormat = 'wav' | 'mp3';
+
+// Per-speaker voice for dialogue scripts. voiceId may point at a browser voice
+// or a clone, the same way selectedVoiceId does.
+export interface SpeakerSettings {
+  voiceId: string;
+  rate: number;
+  pitch: number;
+}
+
+// A pronunciation fix applied before synthesis. An empty lang applies to every
+// voice; otherwise it matches voice languages by prefix ("en" covers "en-GB").
+export interface LexiconEntry {
+  id: string;
+  term: string;
+  replacement: string;
+  caseSensitive: boolean;
+  lang: string;
+}
+
+// A spoken word placed on a render's timeline, in seconds from its start.
+// text carries any punctuation that follows the word in the script.
+export interface TimedWord {
+  text: string;
+  start: number;
+  end: number;
+  time: number;
+  endTime: number;
+}
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface SubtitleOptions {
+  maxCharsPerLine: number;
+  maxLines: number;
+  maxDuration: number;
+  minDuration: number;
+}
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export type EqPreset = 'none' | 'warm' | 'bright' | 'broadcast' | 'telephone';
+export type CompressionPreset = 'none' | 'light' | 'heavy';
+export type ReverbPreset = 'none' | 'room' | 'hall';
+
+// Applied to rendered audio. EQ, compression and reverb also run live while
+// buffers play; trimming and loudness need the whole render, so they only
+// happen on export.
+export interface PostProcessSettings {
+  normalize: boolean;
+  targetLufs: number;
+  trimSilence: boolean;
+  eq: EqPreset;
+  compression: CompressionPreset;
+  reverb: ReverbPreset;
+}
+
+export interface MusicTrack {
+  name: string;
+  buffer: AudioBuffer;
+}
+
+// Levels in dB, times in seconds.
+export interface MusicBedSettings {
+  enabled: boolean;
+  level: number;
+  duck: number;
+  fadeIn: number;
+  fadeOut: number;
+  introPad: number;
+  outroPad: number;
+}
+
+// A render asked for while offline. The chunk plan (voice per range) is fixed
+// when it's queued, so later edits to the editor or cast don't change it.
+export interface QueuedChunk extends SpeakerSettings {
+  start: number;
+  end: number;
+}
+
+export interface QueuedRender {
+  id: string;
+  text: string;
+  voiceName: string;
+  settings: GenerationSettings;
+  chunks: QueuedChunk[];
+  createdAt: number;
+  // Set when rendering failed for a reason going online won't fix.
+  error?: string;
+}
+
+// voices maps a primary language code ("es") to a voice id; languages without
+// an entry use the first installed voice for them.
+export interface LanguageSettings {
+  detect: boolean;
+  voices: Record<string, string>;
+}
+
+export interface DocumentSection {
+  title: string;
+  text: string;
+}
+
+export interface ImportedDocument {
+  name: string;
+  sections: DocumentSection[];
+}
+
+// One line of a batch file. Missing voice, rate or pitch fall back to the
+// editor's current settings.
+export interface BatchRow {
+  id: string;
+  text: string;
+  voice?: string;
+  rate?: number;
+  pitch?: number;
+}
+
+export type BatchStatus = 'queued' | 'rendering' | 'done' | 'error';
+
+export interface BatchJob {
+  row: BatchRow;
+  status: BatchStatus;
+  error?: string;
+  duration?: number;
+}
+
+// A voice as named in a share link. The language lets the recipient fall back
+// to a similar voice when theirs has a different list.
+export interface SharedVoice {
+  name: string;
+  lang: string;
+}
+
+export interface SharedSettings {
+  text: string;
+  voice: SharedVoice | null;
+  rate: number;
+  pitch: number;
+  isDialogueMode: boolean;
+  cast: Record<string, { voice: SharedVoice; rate: number; pitch: number }>;
+}
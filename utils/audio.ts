@@ -0,0 +1,258 @@
+import { Mp3Encoder } from '@breezystack/lamejs';
+import { ExportFormat } from '../types';
+
+// --- Decoding ---
+
+export function decodeBase64(base64: string): Uint8Array {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export async function decodeAudioData(
+  data: Uint8Array,
+  ctx: BaseAudioContext,
+  sampleRate: number,
+  numChannels: number,
+): Promise<AudioBuffer> {
+  // Assuming raw PCM 16-bit for Gemini audio output
+  const dataInt16 = new Int16Array(data.buffer);
+  const frameCount = dataInt16.length / numChannels;
+  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+    }
+  }
+  return buffer;
+}
+
+// Decodes a compressed container (WebM, MP3, WAV...) with the browser codecs.
+export async function decodeAudioBlob(blob: Blob): Promise<AudioBuffer> {
+  const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+  try {
+    return await ctx.decodeAudioData(await blob.arrayBuffer());
+  } finally {
+    ctx.close();
+  }
+}
+
+// --- Editing ---
+
+// Sample range [start, end) that holds everything louder than the threshold,
+// widened by a small pad so breaths and consonant onsets aren't clipped.
+export function silenceBounds(buffer: AudioBuffer, threshold = 0.02, padSeconds = 0.1): { start: number; end: number } {
+  const windowSize = Math.max(1, Math.floor(buffer.sampleRate * 0.01));
+  const data = buffer.getChannelData(0);
+  const isLoud = (from: number) => {
+    let sum = 0;
+    const to = Math.min(from + windowSize, data.length);
+    for (let i = from; i < to; i++) sum += data[i] * data[i];
+    return Math.sqrt(sum / (to - from)) > threshold;
+  };
+
+  let start = 0;
+  while (start < data.length && !isLoud(start)) start += windowSize;
+  let end = data.length;
+  while (end > start && !isLoud(Math.max(0, end - windowSize))) end -= windowSize;
+  if (start >= end) return { start: 0, end: data.length };
+
+  const pad = Math.floor(buffer.sampleRate * padSeconds);
+  return { start: Math.max(0, start - pad), end: Math.min(data.length, end + pad) };
+}
+
+// Returns a copy of the buffer without the quiet run-in and run-out.
+export function trimSilence(buffer: AudioBuffer, threshold = 0.02, padSeconds = 0.1): AudioBuffer {
+  const { start, end } = silenceBounds(buffer, threshold, padSeconds);
+  if (start === 0 && end === buffer.length) return buffer;
+
+  const trimmed = new AudioBuffer({
+    length: end - start,
+    numberOfChannels: buffer.numberOfChannels,
+    sampleRate: buffer.sampleRate,
+  });
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    trimmed.copyToChannel(buffer.getChannelData(c).subarray(start, end), c);
+  }
+  return trimmed;
+}
+
+export function concatAudioBuffers(buffers: AudioBuffer[]): AudioBuffer | null {
+  if (buffers.length === 0) return null;
+  const { sampleRate, numberOfChannels } = buffers[0];
+  const joined = new AudioBuffer({
+    length: buffers.reduce((n, b) => n + b.length, 0),
+    numberOfChannels,
+    sampleRate,
+  });
+  let offset = 0;
+  buffers.forEach(b => {
+    for (let c = 0; c < numberOfChannels; c++) {
+      joined.copyToChannel(b.getChannelData(Math.min(c, b.numberOfChannels - 1)), c, offset);
+    }
+    offset += b.length;
+  });
+  return joined;
+}
+
+// --- Analysis ---
+
+export interface WaveformPeaks {
+  min: Float32Array;
+  max: Float32Array;
+  // Columns containing at least one sample at or past full scale.
+  clipped: Uint8Array;
+}
+
+// Min/max per column across all channels, for drawing an overview.
+export function computePeaks(buffer: AudioBuffer, columns: number, clipLevel = 0.99): WaveformPeaks {
+  const min = new Float32Array(columns);
+  const max = new Float32Array(columns);
+  const clipped = new Uint8Array(columns);
+  const perColumn = buffer.length / columns;
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let col = 0; col < columns; col++) {
+      const from = Math.floor(col * perColumn);
+      const to = Math.min(data.length, Math.max(from + 1, Math.floor((col + 1) * perColumn)));
+      for (let i = from; i < to; i++) {
+        const v = data[i];
+        if (v < min[col]) min[col] = v;
+        if (v > max[col]) max[col] = v;
+        if (v >= clipLevel || v <= -clipLevel) clipped[col] = 1;
+      }
+    }
+  }
+  return { min, max, clipped };
+}
+
+// Stretches of near-silence at least minSeconds long, as [start, end] in seconds.
+export function findSilences(buffer: AudioBuffer, minSeconds = 1.5, threshold = 0.01): [number, number][] {
+  const windowSize = Math.max(1, Math.floor(buffer.sampleRate * 0.05));
+  const data = buffer.getChannelData(0);
+  const silences: [number, number][] = [];
+  let quietFrom = -1;
+  const close = (at: number) => {
+    if (quietFrom >= 0 && (at - quietFrom) / buffer.sampleRate >= minSeconds) {
+      silences.push([quietFrom / buffer.sampleRate, at / buffer.sampleRate]);
+    }
+    quietFrom = -1;
+  };
+  for (let from = 0; from < data.length; from += windowSize) {
+    let peak = 0;
+    const to = Math.min(from + windowSize, data.length);
+    for (let i = from; i < to; i++) peak = Math.max(peak, Math.abs(data[i]));
+    if (peak < threshold) {
+      if (quietFrom < 0) quietFrom = from;
+    } else {
+      close(from);
+    }
+  }
+  close(data.length);
+  return silences;
+}
+
+// --- Encoding ---
+
+function floatTo16BitPCM(samples: Float32Array): Int16Array {
+  const out = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    out[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return out;
+}
+
+export function encodeWav(buffer: AudioBuffer): Blob {
+  const numChannels = buffer.numberOfChannels;
+  const sampleRate = buffer.sampleRate;
+  const bytesPerSample = 2;
+  const blockAlign = numChannels * bytesPerSample;
+  const dataSize = buffer.length * blockAlign;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const channels = Array.from({ length: numChannels }, (_, c) => floatTo16BitPCM(buffer.getChannelData(c)));
+  let offset = 44;
+  for (let i = 0; i < buffer.length; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      view.setInt16(offset, channels[c][i], true);
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([view], { type: 'audio/wav' });
+}
+
+export function encodeMp3(buffer: AudioBuffer, kbps = 128): Blob {
+  const numChannels = Math.min(buffer.numberOfChannels, 2);
+  const encoder = new Mp3Encoder(numChannels, buffer.sampleRate, kbps);
+  const left = floatTo16BitPCM(buffer.getChannelData(0));
+  const right = numChannels > 1 ? floatTo16BitPCM(buffer.getChannelData(1)) : undefined;
+  const chunks: Uint8Array[] = [];
+  const blockSize = 1152;
+
+  for (let i = 0; i < left.length; i += blockSize) {
+    const l = left.subarray(i, i + blockSize);
+    const encoded = right ? encoder.encodeBuffer(l, right.subarray(i, i + blockSize)) : encoder.encodeBuffer(l);
+    if (encoded.length > 0) chunks.push(encoded);
+  }
+  const tail = encoder.flush();
+  if (tail.length > 0) chunks.push(tail);
+
+  return new Blob(chunks, { type: 'audio/mpeg' });
+}
+
+export function encodeAudio(buffer: AudioBuffer, format: ExportFormat): Blob {
+  return format === 'mp3' ? encodeMp3(buffer) : encodeWav(buffer);
+}
+
+// --- File Helpers ---
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function makeExportFilename(label: string, ext: string): string {
+  const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'speech';
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  return `${slug}-${stamp}.${ext}`;
+}
+
+export function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
@@ -0,0 +1,90 @@
+import { BatchJob, BatchRow, ExportFormat } from '../types';
+import { encodeAudio } from './audio';
+import { parseCsvRecords } from './csv';
+import { isRecord } from './guards';
+
+// --- Import ---
+
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || String(value).trim() === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+// Rows without text are dropped; missing ids are numbered, and repeats get a
+// suffix so every row still maps to its own file.
+export function parseBatchFile(name: string, content: string): BatchRow[] {
+  let raw: unknown[];
+  if (/\.csv$/i.test(name)) {
+    raw = parseCsvRecords(content);
+  } else {
+    let list: unknown;
+    try {
+      const parsed: unknown = JSON.parse(content);
+      list = isRecord(parsed) ? parsed.rows : parsed;
+    } catch {
+      throw new Error('Batch file is not valid JSON.');
+    }
+    if (!Array.isArray(list)) throw new Error('Batch JSON must be an array of rows.');
+    raw = list;
+  }
+
+  const seen = new Set<string>();
+  const rows: BatchRow[] = [];
+  raw.forEach((r, i) => {
+    if (!isRecord(r)) return;
+    const text = String(r.text ?? '').trim();
+    if (!text) return;
+    const base = String(r.id ?? '').trim() || `row-${String(i + 1).padStart(3, '0')}`;
+    let id = base;
+    for (let n = 2; seen.has(id); n++) id = `${base}-${n}`;
+    seen.add(id);
+    const voice = String(r.voice ?? '').trim();
+    rows.push({ id, text, voice: voice || undefined, rate: toNumber(r.rate), pitch: toNumber(r.pitch) });
+  });
+  if (rows.length === 0) throw new Error('No batch rows with text found.');
+  return rows;
+}
+
+// --- Export ---
+
+export function batchFilename(id: string, ext: string): string {
+  return `${id.replace(/[^\w.-]+/g, '-').replace(/^[-.]+|-+$/g, '') || 'row'}.${ext}`;
+}
+
+// One audio file per finished row plus manifest.json describing every row,
+// including the ones that failed.
+export async function buildBatchArchive(
+  jobs: BatchJob[],
+  buffers: Map<string, AudioBuffer>,
+  format: ExportFormat,
+  defaults: { voice: string; rate: number; pitch: number },
+): Promise<Blob> {
+  const { default: JSZip } = await import('jszip');
+  const zip = new JSZip();
+  const used = new Set<string>();
+  const items = jobs.map(job => {
+    const buffer = buffers.get(job.row.id);
+    let file: string | null = null;
+    if (buffer) {
+      // Distinct ids can still clean up to the same filename.
+      file = batchFilename(job.row.id, format);
+      for (let n = 2; used.has(file); n++) file = batchFilename(`${job.row.id}-${n}`, format);
+      used.add(file);
+      zip.file(file, encodeAudio(buffer, format));
+    }
+    return {
+      id: job.row.id,
+      file,
+      text: job.row.text,
+      voice: job.row.voice ?? defaults.voice,
+      rate: job.row.rate ?? defaults.rate,
+      pitch: job.row.pitch ?? defaults.pitch,
+      duration: buffer ? Math.round(buffer.duration * 1000) / 1000 : null,
+      status: job.status,
+      error: job.error ?? null,
+    };
+  });
+  zip.file('manifest.json', JSON.stringify({ generatedAt: new Date().toISOString(), format, items }, null, 2));
+  return zip.generateAsync({ type: 'blob' });
+}
@@ -0,0 +1,61 @@
+import { decodeAudioBlob } from './audio';
+
+// Browser voices are rendered by the OS speech engine and never pass through
+// Web Audio, so the only way to get a file out of them is to record the tab's
+// own audio output while the utterance plays.
+
+export interface TabAudioCapture {
+  stop: () => Promise<AudioBuffer>;
+  cancel: () => void;
+}
+
+export function isTabCaptureSupported(): boolean {
+  return typeof navigator !== 'undefined'
+    && !!navigator.mediaDevices?.getDisplayMedia
+    && typeof MediaRecorder !== 'undefined';
+}
+
+export async function startTabAudioCapture(): Promise<TabAudioCapture> {
+  const stream = await navigator.mediaDevices.getDisplayMedia({
+    video: true,
+    audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+    preferCurrentTab: true,
+    selfBrowserSurface: 'include',
+    systemAudio: 'include',
+  } as DisplayMediaStreamOptions);
+
+  const audioTracks = stream.getAudioTracks();
+  if (audioTracks.length === 0) {
+    stream.getTracks().forEach(t => t.stop());
+    throw new Error('No tab audio shared. Enable "Share tab audio" in the capture dialog.');
+  }
+  // The video track is only required by the picker; drop it right away.
+  stream.getVideoTracks().forEach(t => t.stop());
+
+  const audioStream = new MediaStream(audioTracks);
+  const recorder = new MediaRecorder(audioStream);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  recorder.start();
+
+  const release = () => audioTracks.forEach(t => t.stop());
+
+  return {
+    stop: () => new Promise<AudioBuffer>((resolve, reject) => {
+      recorder.onstop = async () => {
+        release();
+        try {
+          resolve(await decodeAudioBlob(new Blob(chunks, { type: recorder.mimeType })));
+        } catch (err) {
+          reject(err);
+        }
+      };
+      recorder.stop();
+    }),
+    cancel: () => {
+      recorder.onstop = null;
+      if (recorder.state !== 'inactive') recorder.stop();
+      release();
+    },
+  };
+}
@@ -0,0 +1,90 @@
+// Minimal promise wrapper around IndexedDB. Every object store the app uses is
+// declared here so a single version bump creates any that are missing.
+
+const DB_NAME = 'voice_studio';
+const DB_VERSION = 2;
+
+export const STORES = {
+  clones: 'clones',
+  history: 'history',
+  renders: 'renders',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Object.values(STORES).forEach(name => {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id' });
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  run: (s: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDb();
+  return promisify(run(db.transaction(store, mode).objectStore(store)));
+}
+
+export function getAll<T>(store: StoreName): Promise<T[]> {
+  return withStore(store, 'readonly', s => s.getAll()) as Promise<T[]>;
+}
+
+export function getOne<T>(store: StoreName, id: string): Promise<T | undefined> {
+  return withStore(store, 'readonly', s => s.get(id)) as Promise<T | undefined>;
+}
+
+export async function put<T>(store: StoreName, value: T): Promise<void> {
+  await withStore(store, 'readwrite', s => s.put(value));
+}
+
+export async function putMany<T>(store: StoreName, values: T[]): Promise<void> {
+  if (values.length === 0) return;
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(store, 'readwrite');
+    const s = tx.objectStore(store);
+    values.forEach(v => s.put(v));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function remove(store: StoreName, id: string): Promise<void> {
+  await withStore(store, 'readwrite', s => s.delete(id));
+}
+
+export async function removeMany(store: StoreName, ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(store, 'readwrite');
+    const s = tx.objectStore(store);
+    ids.forEach(id => s.delete(id));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
@@ -0,0 +1,73 @@
+import { Sentence, splitSentences } from './segmenter';
+
+// Script mode: every line may open with a speaker tag ("ALEX: Hi there").
+// Untagged lines continue the previous speaker; text before the first tag
+// belongs to the narrator, which plays with the main voice settings.
+
+export const NARRATOR = 'NARRATOR';
+
+export interface DialogueLine {
+  speaker: string;
+  text: string;
+  start: number;
+  end: number;
+}
+
+const SPEAKER_TAG_RE = /^([\p{L}][\p{L}\p{N} .'_-]{0,31}?)\s*:\s+/u;
+
+export function parseDialogue(text: string): DialogueLine[] {
+  const lines: DialogueLine[] = [];
+  let speaker = NARRATOR;
+  let offset = 0;
+
+  text.split('\n').forEach(raw => {
+    const lineStart = offset;
+    offset += raw.length + 1;
+
+    const tag = SPEAKER_TAG_RE.exec(raw);
+    let bodyStart = 0;
+    if (tag) {
+      speaker = normalizeSpeaker(tag[1]);
+      bodyStart = tag[0].length;
+    }
+    const body = raw.slice(bodyStart);
+    if (!body.trim()) return;
+
+    const last = lines[lines.length - 1];
+    // A continuation line without a tag extends the running turn.
+    if (!tag && last && last.speaker === speaker && last.end === lineStart - 1) {
+      last.text = text.slice(last.start, lineStart + raw.length);
+      last.end = lineStart + raw.length;
+      return;
+    }
+    lines.push({ speaker, text: body, start: lineStart + bodyStart, end: lineStart + raw.length });
+  });
+  return lines;
+}
+
+export function normalizeSpeaker(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toUpperCase();
+}
+
+export function listSpeakers(lines: DialogueLine[]): string[] {
+  return Array.from(new Set(lines.map(l => l.speaker)));
+}
+
+// Sentences for the whole script with speaker attached. Each turn is its own
+// paragraph so chunks never straddle two speakers.
+export function splitDialogueSentences(lines: DialogueLine[]): Sentence[] {
+  const sentences: Sentence[] = [];
+  lines.forEach((line, turn) => {
+    splitSentences(line.text).forEach(s => {
+      sentences.push({
+        ...s,
+        index: sentences.length,
+        start: line.start + s.start,
+        end: line.start + s.end,
+        paragraph: turn,
+        speaker: line.speaker,
+      });
+    });
+  });
+  return sentences;
+}
@@ -0,0 +1,114 @@
+// Thin wrapper around the Web Speech recognition API for live dictation.
+// Recognition stops by itself after a pause, so the session restarts until
+// the caller stops it. Chrome recognises speech on its servers, so it needs a
+// connection even though nothing goes through Gemini.
+
+export interface DictationHandlers {
+  // Words that may still change; replaced by the next interim or final result.
+  onInterim: (text: string) => void;
+  onFinal: (text: string) => void;
+  onError: (message: string) => void;
+  onEnd: () => void;
+}
+
+export interface Dictation {
+  stop: () => void;
+}
+
+const ERRORS: Record<string, string> = {
+  'not-allowed': 'Microphone Blocked',
+  'service-not-allowed': 'Dictation Unavailable',
+  'audio-capture': 'No Microphone Found',
+  'network': 'Dictation Needs a Connection',
+  'language-not-supported': 'Dictation Language Unsupported',
+};
+
+// The parts of the Web Speech API used here; TypeScript's DOM types don't
+// include it.
+interface RecognitionResultEvent {
+  resultIndex: number;
+  results: ArrayLike<{ isFinal: boolean; 0: { transcript: string } }>;
+}
+
+interface Recognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((e: RecognitionResultEvent) => void) | null;
+  onerror: ((e: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+}
+
+type RecognitionConstructor = new () => Recognition;
+
+declare global {
+  interface Window {
+    SpeechRecognition?: RecognitionConstructor;
+    webkitSpeechRecognition?: RecognitionConstructor;
+  }
+}
+
+const recognitionClass = () => window.SpeechRecognition || window.webkitSpeechRecognition;
+
+export const isDictationSupported = () => !!recognitionClass();
+
+export function startDictation(lang: string, handlers: DictationHandlers): Dictation {
+  const RecognitionClass = recognitionClass();
+  if (!RecognitionClass) throw new Error('Dictation Unsupported');
+
+  const recognition = new RecognitionClass();
+  recognition.lang = lang;
+  recognition.continuous = true;
+  recognition.interimResults = true;
+  let stopped = false;
+
+  recognition.onresult = e => {
+    let interim = '';
+    for (let i = e.resultIndex; i < e.results.length; i++) {
+      const transcript: string = e.results[i][0].transcript;
+      if (e.results[i].isFinal) handlers.onFinal(transcript);
+      else interim += transcript;
+    }
+    handlers.onInterim(interim);
+  };
+  // "no-speech" and "aborted" just end the session; the restart below covers them.
+  recognition.onerror = e => {
+    const message = ERRORS[e.error];
+    if (!message) return;
+    stopped = true;
+    handlers.onError(message);
+  };
+  recognition.onend = () => {
+    if (!stopped) {
+      try {
+        recognition.start();
+        return;
+      } catch {
+        // Fall through and end the session.
+      }
+    }
+    handlers.onInterim('');
+    handlers.onEnd();
+  };
+  recognition.start();
+
+  return {
+    stop: () => {
+      stopped = true;
+      recognition.stop();
+    },
+  };
+}
+
+// Joins a dictated phrase onto the text before it: a space between words, and
+// a capital letter at the start of a sentence.
+export function appendPhrase(before: string, phrase: string): string {
+  const words = phrase.trim();
+  if (!words) return '';
+  const atSentenceStart = /(^|[.!?…]["')\]]?)$/.test(before.trimEnd()) || /\n\s*$/.test(before);
+  const spaced = before && !/\s$/.test(before) ? ` ${words}` : words;
+  if (!atSentenceStart) return spaced;
+  return spaced.replace(/\p{L}/u, c => c.toUpperCase());
+}
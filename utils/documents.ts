@@ -0,0 +1,452 @@
+import type JSZip from 'jszip';
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import { DocumentSection, ImportedDocument } from '../types';
+
+// Turns uploaded documents into plain narration text. Markdown and plain
+// text are one section; EPUB spine items and PDF outline entries become
+// sections the user picks from one at a time.
+
+export const DOCUMENT_ACCEPT = '.txt,.text,.md,.markdown,.docx,.pdf,.epub';
+
+// Keep in step with the pdfjs-dist version in package.json, the importmap and public/sw.js.
+const PDF_WORKER_SRC = 'https://esm.sh/pdfjs-dist@4.10.38/build/pdf.worker.min.mjs';
+// PDFs without an outline are split into runs of pages instead.
+const PDF_PAGES_PER_SECTION = 10;
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+// --- Text Cleanup ---
+
+// "12", "- 12 -", "Page 12", "12 of 300", and lower-case roman front matter.
+const PAGE_NUMBER = /^[-–—\s]*(?:[Pp]age\s+)?(?:\d{1,4}|(?=[ivx])x{0,3}(?:ix|iv|v?i{0,3}))(?:\s*(?:of|\/)\s*\d+)?[-–—\s]*$/;
+const SENTENCE_END = /[.!?…:;"'”’)\]]$/;
+
+// Headings and list items stand alone, so give them a full stop to pause on.
+function endSentence(text: string): string {
+  return SENTENCE_END.test(text) ? text : `${text}.`;
+}
+
+// Rejoins lines that were wrapped mid-sentence (including words split with a
+// hyphen), while lines that end a sentence keep their break.
+function unwrapLines(lines: string[]): string {
+  let out = '';
+  lines.forEach(line => {
+    if (!out) out = line;
+    else if (/[a-z]-$/i.test(out) && /^[a-z]/.test(line)) out = out.slice(0, -1) + line;
+    else out += SENTENCE_END.test(out) ? `\n${line}` : ` ${line}`;
+  });
+  return out;
+}
+
+// Blank lines separate paragraphs; stray page numbers are dropped.
+export function cleanPlainText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\f/g, '\n\n')
+    .split(/\n\s*\n/)
+    .map(block => unwrapLines(block.split('\n').map(l => l.trim()).filter(l => l && !PAGE_NUMBER.test(l))))
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+// --- Markdown ---
+
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[\^[^\]]+\]/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+    .replace(/<(https?:|mailto:)[^>]+>/g, '')
+    .replace(/<\/?[a-z][^>]*>/gi, '')
+    .replace(/`+([^`]+)`+/g, '$1')
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '$2')
+    .replace(/\*(?=\S)(.+?)(?<=\S)\*/g, '$1')
+    .replace(/(^|[^\w])_(?=\S)(.+?)(?<=\S)_(?![\w])/g, '$1$2')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/\\([\\`*_{}[\]()#+\-.!|>~])/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function markdownToText(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, '\n').replace(/^---\n[\s\S]*?\n---\n/, '').split('\n');
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  let fence: string | null = null;
+  let inFootnote = false;
+  let inListItem = false;
+
+  const flush = () => {
+    const text = stripInlineMarkdown(paragraph.join(' '));
+    if (text) blocks.push(inListItem ? endSentence(text) : text);
+    paragraph = [];
+    inListItem = false;
+  };
+  const standalone = (text: string) => {
+    flush();
+    const clean = stripInlineMarkdown(text);
+    if (clean) blocks.push(endSentence(clean));
+  };
+
+  lines.forEach((raw, i) => {
+    const fenceMatch = /^\s*(`{3,}|~{3,})/.exec(raw);
+    if (fenceMatch) {
+      if (!fence) { flush(); fence = fenceMatch[1]; }
+      else if (raw.trim().startsWith(fence)) fence = null;
+      return;
+    }
+    if (fence) return;
+
+    // Footnote definitions run on over indented lines.
+    if (/^\[\^[^\]]+\]:/.test(raw)) { flush(); inFootnote = true; return; }
+    if (inFootnote && (/^\s{2,}\S/.test(raw) || !raw.trim())) return;
+    inFootnote = false;
+
+    if (!raw.trim()) return flush();
+    if (/^\s*\[[^\]]+\]:\s*\S/.test(raw)) return;
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(raw) || /^\s*=+\s*$/.test(raw)) {
+      // Setext headings underline the paragraph they end.
+      if (paragraph.length > 0) standalone(paragraph.splice(0).join(' '));
+      return flush();
+    }
+    if (/^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)+\|?\s*$/.test(raw)) return;
+
+    const heading = /^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/.exec(raw);
+    if (heading) return standalone(heading[1]);
+
+    const line = raw.replace(/^(\s*>\s?)+/, '');
+    if (/^\s*\|.*\|\s*$/.test(line)) {
+      return standalone(line.split('|').map(c => c.trim()).filter(Boolean).join(', '));
+    }
+    const item = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.*)$/.exec(line);
+    if (item) {
+      flush();
+      paragraph = [item[1]];
+      inListItem = true;
+      // A list item ends where the next one, or a blank line, begins.
+      const next = lines[i + 1] ?? '';
+      if (!next.trim() || /^\s*(?:[-*+]|\d+[.)])\s+/.test(next)) flush();
+      return;
+    }
+    paragraph.push(line.trim());
+  });
+  flush();
+  return blocks.join('\n\n');
+}
+
+// --- XML / HTML Documents ---
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'header', 'footer', 'main', 'blockquote', 'pre',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'dt', 'dd', 'tr', 'figcaption', 'caption', 'table', 'ul', 'ol', 'dl',
+]);
+
+// Notes, note markers and page-break markers are left out of the narration.
+const SKIP_SELECTOR = [
+  'script', 'style', 'nav', 'aside', 'head',
+  '[epub\\:type~="noteref"]', '[epub\\:type~="footnote"]', '[epub\\:type~="footnotes"]',
+  '[epub\\:type~="endnote"]', '[epub\\:type~="endnotes"]', '[epub\\:type~="pagebreak"]',
+  '[role="doc-noteref"]', '[role="doc-footnote"]', '[role="doc-endnote"]', '[role="doc-endnotes"]',
+  '[role="doc-pagebreak"]',
+].join(', ');
+
+export function htmlToText(root: Element): string {
+  root.querySelectorAll(SKIP_SELECTOR).forEach(el => el.remove());
+  root.querySelectorAll('sup').forEach(el => {
+    if (el.querySelector('a') || /^[\d*†‡§]+$/.test(el.textContent?.trim() ?? '')) el.remove();
+  });
+
+  const blocks: string[] = [];
+  let current = '';
+  const flush = (heading = false) => {
+    const text = current.replace(/\s+/g, ' ').trim();
+    if (text && !PAGE_NUMBER.test(text)) blocks.push(heading ? endSentence(text) : text);
+    current = '';
+  };
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      current += node.textContent;
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const tag = (node as Element).localName.toLowerCase();
+    if (tag === 'br') return flush();
+    const block = BLOCK_TAGS.has(tag);
+    if (block) flush();
+    node.childNodes.forEach(walk);
+    if (block) flush(/^h[1-6]$/.test(tag));
+  };
+  walk(root);
+  flush();
+  return blocks.join('\n\n');
+}
+
+function parseXml(xml: string): Document {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('Unreadable Document');
+  return doc;
+}
+
+async function openZip(data: ArrayBuffer): Promise<JSZip> {
+  const { default: JSZipClass } = await import('jszip');
+  try {
+    return await JSZipClass.loadAsync(data);
+  } catch {
+    throw new Error('Unreadable Document');
+  }
+}
+
+async function readZipText(zip: JSZip, path: string): Promise<string> {
+  const file = zip.file(path);
+  if (!file) throw new Error('Unreadable Document');
+  return file.async('string');
+}
+
+// --- DOCX ---
+
+// Body paragraphs only: headers, footers (page numbers) and footnotes live in
+// other parts of the package and are never read.
+async function docxToText(data: ArrayBuffer): Promise<string> {
+  const zip = await openZip(data);
+  const doc = parseXml(await readZipText(zip, 'word/document.xml'));
+  const blocks: string[] = [];
+
+  Array.from(doc.getElementsByTagNameNS(W_NS, 'p')).forEach(p => {
+    let text = '';
+    const walk = (node: Node) => {
+      if (node.nodeType !== Node.ELEMENT_NODE) return;
+      const el = node as Element;
+      if (el !== p && el.localName === 'p') return; // nested (text box) paragraphs get their own turn
+      if (el.localName === 't') text += el.textContent ?? '';
+      else if (el.localName === 'tab') text += ' ';
+      else if (el.localName === 'br' || el.localName === 'cr') text += ' ';
+      else if (el.localName === 'noBreakHyphen') text += '-';
+      el.childNodes.forEach(walk);
+    };
+    walk(p);
+    const clean = text.replace(/\s+/g, ' ').trim();
+    if (!clean || PAGE_NUMBER.test(clean)) return;
+
+    const style = p.getElementsByTagNameNS(W_NS, 'pStyle')[0];
+    const styleName = style?.getAttributeNS(W_NS, 'val') ?? style?.getAttribute('w:val') ?? '';
+    blocks.push(/^(heading|title|subtitle)/i.test(styleName) ? endSentence(clean) : clean);
+  });
+  return blocks.join('\n\n');
+}
+
+// --- EPUB ---
+
+function resolvePath(base: string, href: string): string {
+  const parts = (base + decodeURIComponent(href.split('#')[0])).split('/');
+  const resolved: string[] = [];
+  parts.forEach(part => {
+    if (part === '..') resolved.pop();
+    else if (part && part !== '.') resolved.push(part);
+  });
+  return resolved.join('/');
+}
+
+const dirOf = (path: string) => path.includes('/') ? path.slice(0, path.lastIndexOf('/') + 1) : '';
+
+// Chapter titles from the EPUB 3 nav document, or the EPUB 2 NCX.
+async function epubTitles(zip: JSZip, items: Element[], base: string): Promise<Map<string, string>> {
+  const titles = new Map<string, string>();
+  const add = (href: string | null, label: string | null | undefined, from: string) => {
+    const title = label?.replace(/\s+/g, ' ').trim();
+    if (!href || !title) return;
+    const path = resolvePath(dirOf(from), href);
+    if (!titles.has(path)) titles.set(path, title);
+  };
+
+  const nav = items.find(i => (i.getAttribute('properties') ?? '').split(/\s+/).includes('nav'));
+  const ncx = items.find(i => i.getAttribute('media-type') === 'application/x-dtbncx+xml');
+  try {
+    if (nav) {
+      const path = resolvePath(base, nav.getAttribute('href') ?? '');
+      const doc = new DOMParser().parseFromString(await readZipText(zip, path), 'text/html');
+      const toc = doc.querySelector('nav[epub\\:type~="toc"]') ?? doc.querySelector('nav');
+      toc?.querySelectorAll('a[href]').forEach(a => add(a.getAttribute('href'), a.textContent, path));
+    } else if (ncx) {
+      const path = resolvePath(base, ncx.getAttribute('href') ?? '');
+      const doc = parseXml(await readZipText(zip, path));
+      Array.from(doc.getElementsByTagNameNS('*', 'navPoint')).forEach(point => {
+        const label = point.getElementsByTagNameNS('*', 'text')[0]?.textContent;
+        add(point.getElementsByTagNameNS('*', 'content')[0]?.getAttribute('src') ?? null, label, path);
+      });
+    }
+  } catch (err) {
+    // Titles are a nicety; fall back to headings in the chapters themselves.
+    console.warn('EPUB table of contents unreadable:', err);
+  }
+  return titles;
+}
+
+async function epubSections(data: ArrayBuffer): Promise<DocumentSection[]> {
+  const zip = await openZip(data);
+  const container = parseXml(await readZipText(zip, 'META-INF/container.xml'));
+  const opfPath = container.getElementsByTagNameNS('*', 'rootfile')[0]?.getAttribute('full-path');
+  if (!opfPath) throw new Error('Unreadable Document');
+  const opf = parseXml(await readZipText(zip, opfPath));
+  const base = dirOf(opfPath);
+
+  const items = Array.from(opf.getElementsByTagNameNS('*', 'item'));
+  const byId = new Map(items.map(i => [i.getAttribute('id'), i]));
+  const titles = await epubTitles(zip, items, base);
+
+  const sections: DocumentSection[] = [];
+  for (const ref of Array.from(opf.getElementsByTagNameNS('*', 'itemref'))) {
+    if (ref.getAttribute('linear') === 'no') continue;
+    const item = byId.get(ref.getAttribute('idref'));
+    if (!item || !/html/.test(item.getAttribute('media-type') ?? '')) continue;
+    const path = resolvePath(base, item.getAttribute('href') ?? '');
+    const file = zip.file(path);
+    if (!file) continue;
+    const doc = new DOMParser().parseFromString(await file.async('string'), 'text/html');
+    const heading = doc.querySelector('h1, h2, h3')?.textContent?.replace(/\s+/g, ' ').trim();
+    const text = htmlToText(doc.body);
+    if (!text) continue;
+    sections.push({ title: titles.get(path) || heading || `Section ${sections.length + 1}`, text });
+  }
+  return sections;
+}
+
+// --- PDF ---
+
+interface PdfLine {
+  text: string;
+  y: number;
+  height: number;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+}
+
+// Rebuilds lines from positioned text runs, then drops page numbers at the
+// top or bottom and the small-print footnotes at the foot of the page.
+async function pdfPageParagraphs(page: PDFPageProxy): Promise<string[]> {
+  const content = await page.getTextContent();
+  const lines: PdfLine[] = [];
+  let lastRight = 0;
+  content.items.forEach(item => {
+    if (!('str' in item)) return;
+    const x = item.transform[4];
+    const y = item.transform[5];
+    const height = item.height || Math.abs(item.transform[3]);
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line.y - y) < Math.max(line.height, height) * 0.5) {
+      const gap = x - lastRight > height * 0.15 && !line.text.endsWith(' ') && !item.str.startsWith(' ');
+      line.text += (gap ? ' ' : '') + item.str;
+      line.height = Math.max(line.height, height);
+    } else if (item.str.trim()) {
+      lines.push({ text: item.str, y, height });
+    }
+    lastRight = x + item.width;
+  });
+
+  const kept = lines
+    .map(l => ({ ...l, text: l.text.replace(/\s+/g, ' ').trim() }))
+    .filter(l => l.text);
+  while (kept.length > 0 && PAGE_NUMBER.test(kept[0].text)) kept.shift();
+  while (kept.length > 0 && PAGE_NUMBER.test(kept[kept.length - 1].text)) kept.pop();
+
+  const bodyHeight = median(kept.map(l => l.height));
+  let end = kept.length;
+  while (end > 1 && kept[end - 1].height < bodyHeight * 0.85) end--;
+  if (end < kept.length && /^[\d*†‡§]/.test(kept[end].text)) kept.splice(end);
+
+  // A gap well beyond the usual line spacing starts a new paragraph.
+  const spacing = median(kept.slice(1).map((l, i) => Math.abs(kept[i].y - l.y)));
+  const paragraphs: string[][] = [];
+  kept.forEach((line, i) => {
+    const gap = i > 0 ? Math.abs(kept[i - 1].y - line.y) : 0;
+    if (i === 0 || gap > spacing * 1.5) paragraphs.push([]);
+    paragraphs[paragraphs.length - 1].push(line.text);
+  });
+  return paragraphs.map(unwrapLines);
+}
+
+// Joins pages, carrying a paragraph across the page break when the first
+// page leaves it mid-sentence.
+function joinPages(pages: string[][]): string {
+  const paragraphs: string[] = [];
+  pages.forEach(page => page.forEach((paragraph, i) => {
+    const last = paragraphs[paragraphs.length - 1];
+    if (i === 0 && last && !SENTENCE_END.test(last)) paragraphs[paragraphs.length - 1] = unwrapLines([last, paragraph]);
+    else paragraphs.push(paragraph);
+  }));
+  return paragraphs.join('\n\n');
+}
+
+async function pdfOutline(pdf: PDFDocumentProxy): Promise<{ title: string; page: number }[]> {
+  const outline = await pdf.getOutline().catch(() => null);
+  const entries: { title: string; page: number }[] = [];
+  for (const entry of outline ?? []) {
+    try {
+      const dest = typeof entry.dest === 'string' ? await pdf.getDestination(entry.dest) : entry.dest;
+      if (!dest) continue;
+      const page = await pdf.getPageIndex(dest[0]);
+      if (!entries.some(e => e.page === page)) entries.push({ title: entry.title.trim(), page });
+    } catch {
+      // Broken destinations are common; skip the entry.
+    }
+  }
+  return entries.sort((a, b) => a.page - b.page);
+}
+
+async function pdfSections(data: ArrayBuffer): Promise<DocumentSection[]> {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = PDF_WORKER_SRC;
+  let pdf: PDFDocumentProxy;
+  try {
+    pdf = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+  } catch {
+    throw new Error('Unreadable Document');
+  }
+
+  try {
+    const pages: string[][] = [];
+    for (let n = 1; n <= pdf.numPages; n++) pages.push(await pdfPageParagraphs(await pdf.getPage(n)));
+    if (pages.every(p => p.length === 0)) throw new Error('No Text Found (Scanned PDF?)');
+
+    let ranges: { title: string; from: number; to: number }[];
+    const outline = await pdfOutline(pdf);
+    if (outline.length > 0) {
+      ranges = outline.map((entry, i) => ({ title: entry.title, from: entry.page, to: outline[i + 1]?.page ?? pages.length }));
+      if (outline[0].page > 0) ranges.unshift({ title: 'Front Matter', from: 0, to: outline[0].page });
+    } else {
+      ranges = [];
+      for (let from = 0; from < pages.length; from += PDF_PAGES_PER_SECTION) {
+        const to = Math.min(pages.length, from + PDF_PAGES_PER_SECTION);
+        ranges.push({ title: `Pages ${from + 1}–${to}`, from, to });
+      }
+    }
+    return ranges
+      .map(r => ({ title: r.title, text: joinPages(pages.slice(r.from, r.to)) }))
+      .filter(s => s.text);
+  } finally {
+    pdf.destroy();
+  }
+}
+
+// --- Entry Point ---
+
+export async function importDocument(file: File): Promise<ImportedDocument> {
+  const ext = file.name.split('.').pop()?.toLowerCase() ?? '';
+  const name = file.name.replace(/\.[^.]+$/, '');
+  const single = (text: string): ImportedDocument => ({ name, sections: [{ title: name, text }] });
+
+  let doc: ImportedDocument;
+  if (ext === 'md' || ext === 'markdown') doc = single(markdownToText(await file.text()));
+  else if (ext === 'txt' || ext === 'text') doc = single(cleanPlainText(await file.text()));
+  else if (ext === 'docx') doc = single(await docxToText(await file.arrayBuffer()));
+  else if (ext === 'epub') doc = { name, sections: await epubSections(await file.arrayBuffer()) };
+  else if (ext === 'pdf') doc = { name, sections: await pdfSections(await file.arrayBuffer()) };
+  else throw new Error('Unsupported File Type');
+
+  doc.sections = doc.sections.filter(s => s.text.trim());
+  if (doc.sections.length === 0) throw new Error('No Text Found');
+  return doc;
+}
@@ -0,0 +1,232 @@
+import { LanguageSettings } from '../types';
+import { LangMark } from './markup';
+import { Sentence } from './segmenter';
+import { booleanOr, isRecord } from './guards';
+
+// Offline language guessing for mixed-language scripts. Non-Latin scripts
+// give the language away; Latin text is scored against short lists of
+// function words, which are enough for a sentence but not for a lone word,
+// so short or ambiguous pieces stay undetected.
+
+export const DEFAULT_LANGUAGE_SETTINGS: LanguageSettings = { detect: true, voices: {} };
+
+export function normalizeLanguageSettings(raw: unknown): LanguageSettings {
+  const s = isRecord(raw) ? raw : {};
+  const voices = isRecord(s.voices) ? s.voices : {};
+  return {
+    detect: booleanOr(s.detect, DEFAULT_LANGUAGE_SETTINGS.detect),
+    voices: Object.fromEntries(Object.entries(voices).filter((e): e is [string, string] => typeof e[1] === 'string')),
+  };
+}
+
+// --- Detection ---
+
+const STOP_WORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'was', 'were', 'of', 'to', 'that', 'it', 'with', 'for', 'you', 'this', 'have', 'has', 'not', 'be', 'what', 'where', 'how', 'my', 'your', 'we', 'they', 'he', 'she', 'would', 'will', 'can', 'there', 'from', 'at', 'do', 'does', 'just', 'our', 'about'],
+  es: ['el', 'los', 'las', 'del', 'que', 'y', 'un', 'una', 'es', 'por', 'con', 'para', 'se', 'su', 'al', 'lo', 'como', 'más', 'pero', 'está', 'están', 'dónde', 'qué', 'cómo', 'muy', 'gracias', 'hola', 'yo', 'tú', 'usted', 'estoy', 'sí', 'también', 'porque', 'hay', 'este', 'esta', 'nosotros', 'bueno'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'ich', 'du', 'sie', 'wir', 'ihr', 'mit', 'auf', 'für', 'von', 'zu', 'den', 'dem', 'des', 'im', 'es', 'sich', 'auch', 'wie', 'wo', 'was', 'bitte', 'danke', 'sehr', 'haben', 'sind', 'war', 'noch', 'nur', 'aber', 'oder', 'kein', 'gut', 'heute'],
+  fr: ['le', 'les', 'des', 'du', 'et', 'est', 'une', 'je', 'il', 'elle', 'nous', 'vous', 'ils', 'pas', 'ne', 'qui', 'dans', 'pour', 'avec', 'sur', 'au', 'aux', 'ce', 'cette', 'mais', 'où', 'merci', 'bonjour', 'très', 'qu', 'c', 'j', 'suis', 'sont', 'comment', 'oui'],
+  it: ['il', 'gli', 'di', 'del', 'della', 'che', 'è', 'per', 'non', 'sono', 'sei', 'ho', 'ha', 'come', 'dove', 'cosa', 'grazie', 'ciao', 'molto', 'anche', 'ma', 'questo', 'questa', 'perché', 'io', 'noi', 'voi', 'nel', 'alla', 'buongiorno', 'sì', 'una', 'un'],
+  pt: ['os', 'do', 'da', 'dos', 'das', 'que', 'é', 'um', 'uma', 'em', 'no', 'na', 'para', 'com', 'não', 'por', 'mais', 'como', 'onde', 'obrigado', 'obrigada', 'olá', 'você', 'eu', 'ele', 'ela', 'muito', 'também', 'está', 'são', 'isso', 'isto', 'sim'],
+  nl: ['het', 'een', 'en', 'is', 'van', 'dat', 'die', 'niet', 'ik', 'je', 'jij', 'wij', 'zijn', 'met', 'voor', 'op', 'aan', 'er', 'maar', 'ook', 'wat', 'waar', 'hoe', 'dank', 'bedankt', 'hallo', 'goed', 'heel', 'naar', 'bij', 'nog', 'geen', 'graag'],
+};
+
+const STOP_WORD_SETS = Object.fromEntries(Object.entries(STOP_WORDS).map(([lang, words]) => [lang, new Set(words)]));
+
+// Letters that (among the languages above) belong to one language, worth two words each.
+const LETTER_HINTS: [RegExp, string][] = [
+  [/[ñ¿¡]/, 'es'],
+  [/[ßäöü]/, 'de'],
+  [/[œçêîûù]/, 'fr'],
+  [/[ãõ]/, 'pt'],
+  [/[ìò]/, 'it'],
+  [/ij/, 'nl'],
+];
+
+const SCRIPTS: [RegExp, string][] = [
+  [/\p{Script=Hangul}/gu, 'ko'],
+  [/\p{Script=Cyrillic}/gu, 'ru'],
+  [/\p{Script=Arabic}/gu, 'ar'],
+  [/\p{Script=Devanagari}/gu, 'hi'],
+  [/\p{Script=Greek}/gu, 'el'],
+  [/\p{Script=Hebrew}/gu, 'he'],
+  [/\p{Script=Thai}/gu, 'th'],
+];
+
+const count = (text: string, re: RegExp) => text.match(re)?.length ?? 0;
+
+function scriptLanguage(text: string, letters: number): string | null {
+  const kana = count(text, /[\p{Script=Hiragana}\p{Script=Katakana}]/gu);
+  const han = count(text, /\p{Script=Han}/gu);
+  if (kana > 0 && kana + han > letters / 2) return 'ja';
+  if (han > letters / 2) return 'zh';
+  for (const [re, lang] of SCRIPTS) {
+    if (count(text, re) > letters / 2) return lang === 'ru' && /[ієїґ]/i.test(text) ? 'uk' : lang;
+  }
+  return null;
+}
+
+// Primary language code ("es") or null when the text doesn't say enough.
+export function detectLanguage(text: string): string | null {
+  const plain = text.replace(/<[^<>]*>/g, ' ').toLowerCase();
+  const letters = count(plain, /\p{L}/gu);
+  if (letters === 0) return null;
+  const script = scriptLanguage(plain, letters);
+  if (script) return script;
+
+  const scores: Record<string, number> = {};
+  (plain.match(/\p{L}+/gu) ?? []).forEach(word => {
+    Object.entries(STOP_WORD_SETS).forEach(([lang, set]) => {
+      if (set.has(word)) scores[lang] = (scores[lang] ?? 0) + 1;
+    });
+  });
+  LETTER_HINTS.forEach(([re, lang]) => {
+    if (re.test(plain)) scores[lang] = (scores[lang] ?? 0) + 2;
+  });
+  const [best, second] = Object.entries(scores).sort((a, b) => b[1] - a[1]);
+  if (!best || best[1] < 2 || (second && best[1] - second[1] < 1)) return null;
+  return best[0];
+}
+
+export const DETECTED_LANGUAGES = [...Object.keys(STOP_WORDS), 'ja', 'zh', 'ko', 'ru', 'uk', 'ar', 'hi', 'el', 'he', 'th'];
+
+export const primaryLanguage = (lang: string) => lang.split(/[-_]/)[0].toLowerCase();
+
+export const sameLanguage = (a: string, b: string) => primaryLanguage(a) === primaryLanguage(b);
+
+// --- Sentences ---
+
+// Gives every sentence a language. Sentences are split where a <lang> element
+// starts or ends inside them, and the innermost element wins. Unmarked pieces
+// are detected (when `detect` is on); a short one that can't be told ("Sí.")
+// takes the language of the piece before it in the same paragraph.
+const SHORT_PIECE_WORDS = 4;
+
+export function assignLanguages(sentences: Sentence[], text: string, marks: LangMark[], detect: boolean): Sentence[] {
+  const out: Sentence[] = [];
+  let carry: { paragraph: number; lang: string | undefined } = { paragraph: -1, lang: undefined };
+
+  sentences.forEach(sentence => {
+    const cuts = new Set([sentence.start, sentence.end]);
+    marks.forEach(m => [m.openStart, m.closeEnd].forEach(at => {
+      if (at > sentence.start && at < sentence.end) cuts.add(at);
+    }));
+    const bounds = [...cuts].sort((a, b) => a - b);
+
+    for (let i = 0; i < bounds.length - 1; i++) {
+      const raw = text.slice(bounds[i], bounds[i + 1]);
+      const trimmed = raw.trim();
+      if (!/[\p{L}\p{N}]/u.test(trimmed)) continue;
+      const start = bounds[i] + raw.length - raw.trimStart().length;
+      const end = start + trimmed.length;
+
+      const mark = marks
+        .filter(m => m.openStart <= start && m.closeEnd >= end)
+        .sort((a, b) => (a.end - a.start) - (b.end - b.start))[0];
+      let lang = mark?.lang;
+      if (!mark && detect) {
+        const isShort = (trimmed.match(/\p{L}+/gu) ?? []).length < SHORT_PIECE_WORDS;
+        lang = detectLanguage(trimmed)
+          ?? (isShort && carry.paragraph === sentence.paragraph ? carry.lang : undefined);
+        carry = { paragraph: sentence.paragraph, lang };
+      }
+      out.push({ ...sentence, index: out.length, text: trimmed, start, end, lang });
+    }
+  });
+  return out;
+}
+
+// The language most of the script is in, by characters. Voices without a
+// declared language (clones) are taken to speak it. Marked text doesn't
+// count, since tags mark the exceptions.
+export function dominantLanguage(sentences: Sentence[], marks: LangMark[]): string | null {
+  const totals = new Map<string, number>();
+  sentences.forEach(s => {
+    if (marks.some(m => m.openStart <= s.start && m.closeEnd >= s.end)) return;
+    if (s.lang) totals.set(primaryLanguage(s.lang), (totals.get(primaryLanguage(s.lang)) ?? 0) + s.text.length);
+  });
+  return [...totals.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+}
+
+// --- Spans ---
+
+export interface LanguageSpan {
+  start: number;
+  end: number;
+  lang: string;
+  speaker?: string;
+  mark: LangMark | null;
+}
+
+// Runs of neighbouring sentences in the same language, for the editor. Each
+// <lang> element is its own span so it can be changed on its own.
+export function languageSpans(sentences: Sentence[], marks: LangMark[]): LanguageSpan[] {
+  const spans: LanguageSpan[] = [];
+  let last: { span: LanguageSpan; paragraph: number } | null = null;
+  sentences.forEach(s => {
+    if (!s.lang) {
+      last = null;
+      return;
+    }
+    const mark = marks.find(m => m.openStart <= s.start && m.closeEnd >= s.end && m.lang === s.lang) ?? null;
+    const sameMark = mark ? last?.span.mark === mark : !last?.span.mark;
+    if (last && sameMark && (mark || last.paragraph === s.paragraph) && last.span.lang === s.lang) {
+      last.span.end = s.end;
+      return;
+    }
+    const span: LanguageSpan = { start: s.start, end: s.end, lang: s.lang, speaker: s.speaker, mark };
+    spans.push(span);
+    last = { span, paragraph: s.paragraph };
+  });
+  return spans;
+}
+
+// Rewrites the editor text to pin a span to a language, or with lang null to
+// drop its <lang> element and go back to detection.
+export function markLanguage(text: string, span: { start: number; end: number; mark: LangMark | null }, lang: string | null): string {
+  const { mark } = span;
+  if (mark) {
+    const inner = text.slice(mark.start, mark.end);
+    const replacement = lang ? `<lang xml:lang="${lang}">${inner}</lang>` : inner;
+    return text.slice(0, mark.openStart) + replacement + text.slice(mark.closeEnd);
+  }
+  if (!lang) return text;
+  const [start, end] = balancedRange(text, span.start, span.end);
+  return `${text.slice(0, start)}<lang xml:lang="${lang}">${text.slice(start, end)}</lang>${text.slice(end)}`;
+}
+
+const TAG_RE = /<(\/?)([a-zA-Z][\w-]*)[^<>]*?(\/?)>/g;
+
+// Widens [start, end) until no element is cut in half, so wrapping it in a new
+// element keeps the markup well nested.
+function balancedRange(text: string, start: number, end: number): [number, number] {
+  const pairs: [number, number][] = [];
+  const open: { name: string; start: number }[] = [];
+  let m: RegExpExecArray | null;
+  TAG_RE.lastIndex = 0;
+  while ((m = TAG_RE.exec(text)) !== null) {
+    const name = m[2].toLowerCase();
+    if (m[3] || name === 'break') continue;
+    if (!m[1]) {
+      open.push({ name, start: m.index });
+      continue;
+    }
+    const at = open.map(o => o.name).lastIndexOf(name);
+    if (at >= 0) pairs.push([open.splice(at)[0].start, m.index + m[0].length]);
+  }
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    pairs.forEach(([a, b]) => {
+      const startsInside = a >= start && a < end;
+      const endsInside = b > start && b <= end;
+      if (startsInside !== endsInside) {
+        start = Math.min(start, a);
+        end = Math.max(end, b);
+        changed = true;
+      }
+    });
+  }
+  return [start, end];
+}
@@ -0,0 +1,141 @@
+import { LexiconEntry } from '../types';
+import { MarkupRun, SpeechRun } from './markup';
+import { parseCsvRecords, toCsv } from './csv';
+import { isRecord } from './guards';
+
+interface LexiconMatch {
+  start: number;
+  end: number;
+  entry: LexiconEntry;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Terms like "C++" or ".NET" start or end on punctuation, where \b fails,
+// so boundaries are "not next to a letter or digit" instead.
+function termPattern(entry: LexiconEntry): RegExp {
+  const flags = entry.caseSensitive ? 'gu' : 'giu';
+  return new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(entry.term)}(?![\\p{L}\\p{N}_])`, flags);
+}
+
+export function entriesForLang(entries: LexiconEntry[], lang: string | null): LexiconEntry[] {
+  const voiceLang = (lang || '').toLowerCase();
+  return entries.filter(e => {
+    if (!e.term.trim()) return false;
+    const scope = e.lang.trim().toLowerCase();
+    return !scope || (!!voiceLang && voiceLang.startsWith(scope));
+  });
+}
+
+// Non-overlapping matches; on a clash the earlier, then longer, match wins.
+function findMatches(text: string, entries: LexiconEntry[]): LexiconMatch[] {
+  const all: LexiconMatch[] = [];
+  entries.forEach(entry => {
+    const re = termPattern(entry);
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(text)) !== null) all.push({ start: m.index, end: m.index + m[0].length, entry });
+  });
+  all.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+
+  const picked: LexiconMatch[] = [];
+  let cursor = 0;
+  all.forEach(match => {
+    if (match.start < cursor) return;
+    picked.push(match);
+    cursor = match.end;
+  });
+  return picked;
+}
+
+export function applyLexicon(text: string, entries: LexiconEntry[]): string {
+  let out = '';
+  let cursor = 0;
+  findMatches(text, entries).forEach(m => {
+    out += text.slice(cursor, m.start) + m.entry.replacement;
+    cursor = m.end;
+  });
+  return out + text.slice(cursor);
+}
+
+// Splits plain markup runs around lexicon hits. Hits become atomic runs so the
+// replacement is never cut in half by a chunk boundary; explicit <sub>,
+// <say-as> and <phoneme> runs are left alone.
+export function applyLexiconToRuns(runs: MarkupRun[], entries: LexiconEntry[]): MarkupRun[] {
+  if (entries.length === 0) return runs;
+  const out: MarkupRun[] = [];
+  runs.forEach(run => {
+    if (run.kind === 'break' || run.atomic) {
+      out.push(run);
+      return;
+    }
+    let cursor = 0;
+    const piece = (from: number, to: number, patch: Partial<SpeechRun> = {}) => {
+      if (to > from) out.push({ ...run, text: run.text.slice(from, to), start: run.start + from, end: run.start + to, ...patch });
+    };
+    findMatches(run.text, entries).forEach(m => {
+      piece(cursor, m.start);
+      piece(m.start, m.end, { text: m.entry.replacement, prompt: m.entry.replacement, atomic: true });
+      cursor = m.end;
+    });
+    piece(cursor, run.text.length);
+  });
+  return out;
+}
+
+// --- Import / Export ---
+
+const CSV_HEADER = ['term', 'replacement', 'case_sensitive', 'lang'];
+
+function normalizeEntry(raw: unknown): LexiconEntry | null {
+  if (!isRecord(raw)) return null;
+  const term = String(raw.term ?? '').trim();
+  if (!term) return null;
+  const caseFlag = raw.caseSensitive ?? raw.case_sensitive;
+  return {
+    id: crypto.randomUUID(),
+    term,
+    replacement: String(raw.replacement ?? ''),
+    caseSensitive: caseFlag === true || /^(true|yes|1)$/i.test(String(caseFlag ?? '')),
+    lang: String(raw.lang ?? '').trim(),
+  };
+}
+
+// The saved lexicon keeps its ids; anything unusable is dropped.
+export function normalizeLexicon(raw: unknown): LexiconEntry[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap(item => {
+    const entry = normalizeEntry(item);
+    if (!entry) return [];
+    return isRecord(item) && typeof item.id === 'string' && item.id ? [{ ...entry, id: item.id }] : [entry];
+  });
+}
+
+export function lexiconToJson(entries: LexiconEntry[]): string {
+  return JSON.stringify(entries.map(({ term, replacement, caseSensitive, lang }) => ({ term, replacement, caseSensitive, lang })), null, 2);
+}
+
+export function lexiconToCsv(entries: LexiconEntry[]): string {
+  return toCsv([CSV_HEADER, ...entries.map(e => [e.term, e.replacement, e.caseSensitive, e.lang])]);
+}
+
+export function parseLexiconFile(name: string, content: string): LexiconEntry[] {
+  let raw: unknown[];
+  if (/\.csv$/i.test(name)) {
+    raw = parseCsvRecords(content);
+  } else {
+    let list: unknown;
+    try {
+      const parsed: unknown = JSON.parse(content);
+      list = isRecord(parsed) ? parsed.entries : parsed;
+    } catch {
+      throw new Error('Lexicon file is not valid JSON.');
+    }
+    if (!Array.isArray(list)) throw new Error('Lexicon JSON must be an array of entries.');
+    raw = list;
+  }
+  const entries = raw.map(normalizeEntry).filter((e): e is LexiconEntry => !!e);
+  if (entries.length === 0) throw new Error('No lexicon entries found.');
+  return entries;
+}
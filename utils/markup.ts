@@ -0,0 +1,376 @@
+import { numberToWords, ordinalToWords, spellCharacters, spellTelephone, formatDate } from './spellout';
+
+// An SSML-flavoured subset parsed straight off the editor text:
+//   <break time="500ms"/>  <emphasis level="strong">…</emphasis>
+//   <say-as interpret-as="date|cardinal|number|ordinal|characters|telephone" format="mdy">…</say-as>
+//   <prosody rate="slow|80%|1.2" pitch="high|+10%|-2st">…</prosody>
+//   <phoneme ph="toh-MAH-toh">tomato</phoneme>  <sub alias="World Wide Web">WWW</sub>
+//   <lang xml:lang="es">¿Dónde está?</lang>
+// The result is a flat list of runs with source offsets, so the chunk queue
+// can keep working on sentence ranges of the raw text.
+
+export type EmphasisLevel = 'strong' | 'moderate' | 'reduced';
+
+export interface SpeechRun {
+  kind: 'speech';
+  text: string;
+  // Text for the Gemini prompt when it differs from what the browser says.
+  prompt?: string;
+  start: number;
+  end: number;
+  rate: number;
+  pitch: number;
+  emphasis: EmphasisLevel | null;
+  // Substituted runs can't be cut in the middle; plain runs map 1:1 onto the source.
+  atomic: boolean;
+  // Set on merged runs: where each original piece starts in `text`.
+  segments?: RunSegment[];
+}
+
+export interface RunSegment {
+  textStart: number;
+  start: number;
+  end: number;
+  atomic: boolean;
+}
+
+export interface BreakRun {
+  kind: 'break';
+  ms: number;
+  start: number;
+  end: number;
+}
+
+export type MarkupRun = SpeechRun | BreakRun;
+
+export interface MarkupError {
+  start: number;
+  end: number;
+  message: string;
+}
+
+// A <lang> element. start/end cover its content; the tag offsets let the
+// editor rewrite or remove it.
+export interface LangMark {
+  lang: string;
+  start: number;
+  end: number;
+  openStart: number;
+  closeEnd: number;
+}
+
+export interface ParsedMarkup {
+  runs: MarkupRun[];
+  errors: MarkupError[];
+  langs: LangMark[];
+  hasMarkup: boolean;
+}
+
+interface OpenElement {
+  name: string;
+  attrs: Record<string, string>;
+  tagStart: number;
+  contentStart: number;
+  rate: number;
+  pitch: number;
+  emphasis: EmphasisLevel | null;
+}
+
+const TAG_RE = /<(\/?)([a-zA-Z][\w-]*)([^<>]*?)(\/?)>/g;
+const ATTR_RE = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const CONTAINER_TAGS = new Set(['emphasis', 'prosody', 'lang', 'speak', 's', 'p']);
+const SUBSTITUTION_TAGS = new Set(['say-as', 'phoneme', 'sub']);
+// Anything else in angle brackets ("if a<b and c>d") is ordinary text.
+const isMarkupTag = (name: string) => name === 'break' || CONTAINER_TAGS.has(name) || SUBSTITUTION_TAGS.has(name);
+
+const BREAK_STRENGTH: Record<string, number> = { none: 0, 'x-weak': 100, weak: 250, medium: 500, strong: 1000, 'x-strong': 1500 };
+const RATE_NAMES: Record<string, number> = { 'x-slow': 0.5, slow: 0.75, medium: 1, fast: 1.25, 'x-fast': 1.5, default: 1 };
+const PITCH_NAMES: Record<string, number> = { 'x-low': 0.6, low: 0.8, medium: 1, high: 1.2, 'x-high': 1.4, default: 1 };
+const LANG_TAG_RE = /^[a-z]{2,3}(?:[-_][a-z0-9]{2,8})*$/i;
+
+function parseAttrs(raw: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  let m: RegExpExecArray | null;
+  ATTR_RE.lastIndex = 0;
+  while ((m = ATTR_RE.exec(raw)) !== null) attrs[m[1].toLowerCase()] = m[2] ?? m[3];
+  return attrs;
+}
+
+export function parseBreakTime(attrs: Record<string, string>): number | null {
+  if (attrs.time !== undefined) {
+    const m = /^(\d+(?:\.\d+)?)\s*(ms|s)$/i.exec(attrs.time.trim());
+    if (!m) return null;
+    const ms = parseFloat(m[1]) * (m[2].toLowerCase() === 's' ? 1000 : 1);
+    return Math.min(ms, 10000);
+  }
+  if (attrs.strength !== undefined) return BREAK_STRENGTH[attrs.strength] ?? null;
+  return BREAK_STRENGTH.medium;
+}
+
+// Returns a multiplier relative to the surrounding speech.
+export function parseProsodyValue(value: string, names: Record<string, number>, allowSemitones: boolean): number | null {
+  const v = value.trim().toLowerCase();
+  if (v in names) return names[v];
+  let m = /^([+-]?\d+(?:\.\d+)?)%$/.exec(v);
+  if (m) {
+    const n = parseFloat(m[1]);
+    return /^[+-]/.test(m[1]) ? 1 + n / 100 : n / 100;
+  }
+  m = /^([+-]\d+(?:\.\d+)?)st$/.exec(v);
+  if (m && allowSemitones) return Math.pow(2, parseFloat(m[1]) / 12);
+  m = /^\d+(?:\.\d+)?$/.exec(v);
+  if (m) return parseFloat(v);
+  return null;
+}
+
+function sayAs(content: string, attrs: Record<string, string>): string | null {
+  const kind = (attrs['interpret-as'] || '').toLowerCase();
+  const numeric = parseFloat(content.replace(/,/g, ''));
+  switch (kind) {
+    case 'cardinal':
+    case 'number':
+      return isNaN(numeric) ? null : numberToWords(numeric);
+    case 'ordinal':
+      return isNaN(numeric) ? null : ordinalToWords(numeric);
+    case 'characters':
+    case 'spell-out':
+    case 'verbatim':
+      return spellCharacters(content);
+    case 'telephone':
+      return spellTelephone(content);
+    case 'date':
+      return formatDate(content, attrs.format);
+    default:
+      return null;
+  }
+}
+
+export function parseMarkup(text: string): ParsedMarkup {
+  const runs: MarkupRun[] = [];
+  const errors: MarkupError[] = [];
+  const langs: LangMark[] = [];
+  const stack: OpenElement[] = [];
+  let cursor = 0;
+  let hasMarkup = false;
+
+  const style = () => {
+    const top = stack[stack.length - 1];
+    return top ? { rate: top.rate, pitch: top.pitch, emphasis: top.emphasis } : { rate: 1, pitch: 1, emphasis: null };
+  };
+  const substitution = () => stack.find(el => SUBSTITUTION_TAGS.has(el.name));
+
+  const emitText = (from: number, to: number) => {
+    if (to <= from || substitution()) return;
+    runs.push({ kind: 'speech', text: text.slice(from, to), start: from, end: to, atomic: false, ...style() });
+  };
+
+  let m: RegExpExecArray | null;
+  TAG_RE.lastIndex = 0;
+  while ((m = TAG_RE.exec(text)) !== null) {
+    const [raw, closing, rawName, rawAttrs, selfClosing] = m;
+    const name = rawName.toLowerCase();
+    if (!isMarkupTag(name)) continue;
+    const tagStart = m.index;
+    const tagEnd = tagStart + raw.length;
+    const fail = (message: string) => errors.push({ start: tagStart, end: tagEnd, message });
+    hasMarkup = true;
+
+    emitText(cursor, tagStart);
+    cursor = tagEnd;
+
+    if (name === 'break') {
+      if (closing) continue;
+      const ms = parseBreakTime(parseAttrs(rawAttrs));
+      if (ms === null) fail('Invalid <break> time. Use e.g. time="500ms" or time="1.5s".');
+      else if (ms > 0 && !substitution()) runs.push({ kind: 'break', ms, start: tagStart, end: tagEnd });
+      continue;
+    }
+
+    if (closing) {
+      const top = stack[stack.length - 1];
+      if (!top || top.name !== name) {
+        fail(top ? `Expected </${top.name}> before </${name}>.` : `</${name}> has no opening tag.`);
+        continue;
+      }
+      stack.pop();
+      const lang = top.attrs['xml:lang'] ?? top.attrs.lang;
+      if (name === 'lang' && lang && LANG_TAG_RE.test(lang)) {
+        langs.push({ lang: lang.replace('_', '-'), start: top.contentStart, end: tagStart, openStart: top.tagStart, closeEnd: tagEnd });
+      }
+      if (SUBSTITUTION_TAGS.has(name)) {
+        const content = text.slice(top.contentStart, tagStart);
+        const run = substitute(top, content);
+        if ('message' in run) errors.push({ start: top.tagStart, end: tagEnd, message: run.message });
+        else runs.push({ ...run, start: top.tagStart, end: tagEnd });
+      }
+      continue;
+    }
+
+    if (selfClosing) {
+      fail(`<${name}> needs content and a closing tag.`);
+      continue;
+    }
+    if (substitution()) {
+      fail(`<${name}> can't be nested inside <${substitution()!.name}>.`);
+      continue;
+    }
+
+    const attrs = parseAttrs(rawAttrs);
+    const parent = style();
+    const el: OpenElement = { name, attrs, tagStart, contentStart: tagEnd, ...parent };
+
+    if (name === 'prosody') {
+      if (attrs.rate !== undefined) {
+        const rate = parseProsodyValue(attrs.rate, RATE_NAMES, false);
+        if (rate === null || rate <= 0) fail(`Invalid prosody rate "${attrs.rate}".`);
+        else el.rate = parent.rate * rate;
+      }
+      if (attrs.pitch !== undefined) {
+        const pitch = parseProsodyValue(attrs.pitch, PITCH_NAMES, true);
+        if (pitch === null || pitch <= 0) fail(`Invalid prosody pitch "${attrs.pitch}".`);
+        else el.pitch = parent.pitch * pitch;
+      }
+    } else if (name === 'emphasis') {
+      const level = (attrs.level || 'moderate').toLowerCase();
+      if (level === 'none') el.emphasis = null;
+      else if (level === 'strong' || level === 'moderate' || level === 'reduced') el.emphasis = level;
+      else fail(`Invalid emphasis level "${attrs.level}".`);
+    } else if (name === 'lang') {
+      const lang = attrs['xml:lang'] ?? attrs.lang;
+      if (!lang) fail('<lang> needs an xml:lang attribute.');
+      else if (!LANG_TAG_RE.test(lang)) fail(`Invalid language "${lang}". Use a code like "es" or "de-AT".`);
+    } else if (name === 'say-as' && !attrs['interpret-as']) {
+      fail('<say-as> needs an interpret-as attribute.');
+    } else if (name === 'sub' && attrs.alias === undefined) {
+      fail('<sub> needs an alias attribute.');
+    } else if (name === 'phoneme' && !attrs.ph) {
+      fail('<phoneme> needs a ph attribute.');
+    }
+    stack.push(el);
+  }
+
+  emitText(cursor, text.length);
+  stack.forEach(el => errors.push({
+    start: el.tagStart,
+    end: el.contentStart,
+    message: `<${el.name}> is never closed.`,
+  }));
+
+  return { runs, errors, langs, hasMarkup };
+}
+
+function substitute(el: OpenElement, content: string): Omit<SpeechRun, 'start' | 'end'> | { message: string } {
+  const base = { kind: 'speech' as const, rate: el.rate, pitch: el.pitch, emphasis: el.emphasis, atomic: true };
+  if (el.name === 'sub') {
+    return { ...base, text: el.attrs.alias ?? content };
+  }
+  if (el.name === 'phoneme') {
+    const ph = el.attrs.ph || '';
+    const alphabet = (el.attrs.alphabet || '').toLowerCase();
+    // Browser voices can't read IPA, so only plain respellings replace the word.
+    const isPhonetic = alphabet === 'ipa' || alphabet === 'x-sampa';
+    return { ...base, text: isPhonetic ? content : ph, prompt: `[pronounce /${ph}/]${content}[/]` };
+  }
+  const spoken = sayAs(content, el.attrs);
+  if (spoken === null) return { message: `Can't read "${content}" as ${el.attrs['interpret-as'] || 'that type'}.` };
+  return { ...base, text: spoken };
+}
+
+// [start, end) of every tag in the text, for views that show the script
+// without its markup.
+export function tagRanges(text: string): [number, number][] {
+  const ranges: [number, number][] = [];
+  let m: RegExpExecArray | null;
+  TAG_RE.lastIndex = 0;
+  while ((m = TAG_RE.exec(text)) !== null) {
+    if (isMarkupTag(m[2].toLowerCase())) ranges.push([m.index, m.index + m[0].length]);
+  }
+  return ranges;
+}
+
+// --- Per-Chunk Views ---
+
+// Runs that fall in [start, end). Plain text is clipped to the range;
+// substituted runs and breaks belong to the chunk their tag starts in.
+export function runsInRange(runs: MarkupRun[], start: number, end: number): MarkupRun[] {
+  const out: MarkupRun[] = [];
+  runs.forEach(run => {
+    if (run.kind === 'break' || run.atomic) {
+      if (run.start >= start && run.start < end) out.push(run);
+      return;
+    }
+    if (run.end <= start || run.start >= end) return;
+    const from = Math.max(start, run.start);
+    const to = Math.min(end, run.end);
+    out.push({ ...run, text: run.text.slice(from - run.start, to - run.start), start: from, end: to });
+  });
+  return out;
+}
+
+function segmentsOf(run: SpeechRun): RunSegment[] {
+  return run.segments ?? [{ textStart: 0, start: run.start, end: run.end, atomic: run.atomic }];
+}
+
+// Maps a character index in a run's spoken text (e.g. from a boundary event)
+// back to an offset in the editor text.
+export function sourceOffsetAt(run: SpeechRun, charIndex: number): number {
+  const segments = segmentsOf(run);
+  let seg = segments[0];
+  for (const candidate of segments) {
+    if (candidate.textStart > charIndex) break;
+    seg = candidate;
+  }
+  if (seg.atomic) return seg.start;
+  return Math.min(seg.end, seg.start + (charIndex - seg.textStart));
+}
+
+function sameStyle(a: SpeechRun, b: SpeechRun) {
+  return a.rate === b.rate && a.pitch === b.pitch && a.emphasis === b.emphasis;
+}
+
+// Joins neighbouring runs that sound the same so each becomes one utterance.
+export function mergeRuns(runs: MarkupRun[]): MarkupRun[] {
+  const out: MarkupRun[] = [];
+  runs.forEach(run => {
+    const last = out[out.length - 1];
+    if (run.kind === 'speech' && last?.kind === 'speech' && sameStyle(last, run)) {
+      out[out.length - 1] = {
+        ...last,
+        segments: [
+          ...segmentsOf(last),
+          { textStart: last.text.length, start: run.start, end: run.end, atomic: run.atomic },
+        ],
+        text: last.text + run.text,
+        prompt: (last.prompt ?? last.text) + (run.prompt ?? run.text),
+        end: run.end,
+        atomic: last.atomic || run.atomic,
+      };
+      return;
+    }
+    if (run.kind === 'speech' && !run.text.trim()) return;
+    out.push(run);
+  });
+  return out.filter(run => run.kind === 'break' || run.text.trim());
+}
+
+// Gemini has no SSML input, so delivery is described with bracketed cues
+// that the prompt in services/gemini.ts explains.
+export function runsToPrompt(runs: MarkupRun[]): string {
+  return mergeRuns(runs).map(run => {
+    if (run.kind === 'break') return `[pause ${Math.round(run.ms)}ms]`;
+    const text = (run.prompt ?? run.text).trim();
+    const cues: string[] = [];
+    if (run.emphasis === 'strong') cues.push('strong emphasis');
+    if (run.emphasis === 'moderate') cues.push('emphasis');
+    if (run.emphasis === 'reduced') cues.push('understated');
+    if (run.rate < 0.95) cues.push('slower');
+    if (run.rate > 1.05) cues.push('faster');
+    if (run.pitch < 0.95) cues.push('lower pitch');
+    if (run.pitch > 1.05) cues.push('higher pitch');
+    return cues.length ? `[${cues.join(', ')}]${text}[/]` : text;
+  }).join(' ');
+}
+
+export function plainRun(text: string): SpeechRun {
+  return { kind: 'speech', text, start: 0, end: text.length, rate: 1, pitch: 1, emphasis: null, atomic: false };
+}
@@ -0,0 +1,53 @@
+// Thin wrapper around getUserMedia + MediaRecorder that also exposes an
+// AnalyserNode so the caller can draw a live input level.
+
+export interface MicRecording {
+  analyser: AnalyserNode;
+  stop: () => Promise<Blob>;
+  cancel: () => void;
+}
+
+export async function startMicRecording(): Promise<MicRecording> {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { echoCancellation: true, noiseSuppression: true, channelCount: 1 },
+  });
+
+  const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 1024;
+  ctx.createMediaStreamSource(stream).connect(analyser);
+
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  recorder.start();
+
+  const release = () => {
+    stream.getTracks().forEach(t => t.stop());
+    ctx.close();
+  };
+
+  return {
+    analyser,
+    stop: () => new Promise<Blob>((resolve) => {
+      recorder.onstop = () => {
+        release();
+        resolve(new Blob(chunks, { type: recorder.mimeType }));
+      };
+      recorder.stop();
+    }),
+    cancel: () => {
+      recorder.onstop = null;
+      if (recorder.state !== 'inactive') recorder.stop();
+      release();
+    },
+  };
+}
+
+// RMS of the current analyser frame, 0..1.
+export function readLevel(analyser: AnalyserNode, scratch: Float32Array): number {
+  analyser.getFloatTimeDomainData(scratch);
+  let sum = 0;
+  for (let i = 0; i < scratch.length; i++) sum += scratch[i] * scratch[i];
+  return Math.sqrt(sum / scratch.length);
+}
@@ -0,0 +1,151 @@
+import { MusicBedSettings } from '../types';
+import { peak } from './processing';
+import { booleanOr, finiteOr, isRecord } from './guards';
+
+export const DEFAULT_MUSIC_BED: MusicBedSettings = {
+  enabled: true,
+  level: -18,
+  duck: -12,
+  fadeIn: 1.5,
+  fadeOut: 2,
+  introPad: 1.5,
+  outroPad: 2,
+};
+
+export function normalizeMusicBed(raw: unknown): MusicBedSettings {
+  const s = isRecord(raw) ? raw : {};
+  const d = DEFAULT_MUSIC_BED;
+  return {
+    enabled: booleanOr(s.enabled, d.enabled),
+    level: finiteOr(s.level, d.level),
+    duck: finiteOr(s.duck, d.duck),
+    fadeIn: finiteOr(s.fadeIn, d.fadeIn),
+    fadeOut: finiteOr(s.fadeOut, d.fadeOut),
+    introPad: finiteOr(s.introPad, d.introPad),
+    outroPad: finiteOr(s.outroPad, d.outroPad),
+  };
+}
+
+// Voice detection for ducking: 50 ms RMS windows, and pauses shorter than the
+// hold time don't let the music back up between words.
+const WINDOW_SECONDS = 0.05;
+const VOICE_THRESHOLD = 0.02;
+const DUCK_HOLD = 0.35;
+const DUCK_ATTACK = 0.08;
+const DUCK_RELEASE = 0.5;
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+// Stretches of the voice (in seconds) the music should sit under.
+export function voiceActivity(voice: AudioBuffer): { start: number; end: number }[] {
+  const window = Math.max(1, Math.floor(voice.sampleRate * WINDOW_SECONDS));
+  const regions: { start: number; end: number }[] = [];
+  for (let from = 0; from < voice.length; from += window) {
+    const to = Math.min(voice.length, from + window);
+    let energy = 0;
+    for (let c = 0; c < voice.numberOfChannels; c++) {
+      const data = voice.getChannelData(c);
+      let sum = 0;
+      for (let i = from; i < to; i++) sum += data[i] * data[i];
+      energy = Math.max(energy, sum / (to - from));
+    }
+    if (Math.sqrt(energy) < VOICE_THRESHOLD) continue;
+    const start = from / voice.sampleRate;
+    const end = to / voice.sampleRate;
+    const last = regions[regions.length - 1];
+    if (last && start - last.end < DUCK_HOLD) last.end = end;
+    else regions.push({ start, end });
+  }
+  return regions;
+}
+
+export function mixDuration(voice: AudioBuffer, settings: MusicBedSettings): number {
+  return settings.introPad + voice.duration + settings.outroPad;
+}
+
+export interface MixGraph {
+  duration: number;
+  ended: Promise<void>;
+  stop: () => void;
+}
+
+// Schedules the voice and the music bed on any context from `when`. The two
+// have separate outputs so the live preview can send only the voice through
+// the effects chain. Without music the voice still gets its padding.
+export function scheduleMix(
+  ctx: BaseAudioContext,
+  voice: AudioBuffer,
+  music: AudioBuffer | null,
+  settings: MusicBedSettings,
+  outputs: { voice: AudioNode; music: AudioNode },
+  when = 0,
+): MixGraph {
+  const duration = mixDuration(voice, settings);
+  const voiceSource = ctx.createBufferSource();
+  voiceSource.buffer = voice;
+  voiceSource.connect(outputs.voice);
+  voiceSource.start(when + settings.introPad);
+  let last = voiceSource;
+  const sources = [voiceSource];
+
+  if (music && settings.enabled) {
+    const bed = ctx.createBufferSource();
+    bed.buffer = music;
+    bed.loop = true;
+    const fade = ctx.createGain();
+    const duck = ctx.createGain();
+    bed.connect(fade).connect(duck).connect(outputs.music);
+
+    // Fades can't overlap, so on a short mix each gets at most half.
+    const level = dbToGain(settings.level);
+    const fadeIn = Math.min(settings.fadeIn, duration / 2);
+    const fadeOut = Math.min(settings.fadeOut, duration / 2);
+    fade.gain.setValueAtTime(fadeIn > 0 ? 0 : level, when);
+    if (fadeIn > 0) fade.gain.linearRampToValueAtTime(level, when + fadeIn);
+    fade.gain.setValueAtTime(level, when + duration - fadeOut);
+    fade.gain.linearRampToValueAtTime(0, when + duration);
+
+    // Dips start a little early so the first syllable isn't masked.
+    const ducked = dbToGain(settings.duck);
+    duck.gain.setValueAtTime(1, when);
+    voiceActivity(voice).forEach(region => {
+      const start = when + settings.introPad + region.start;
+      duck.gain.setTargetAtTime(ducked, Math.max(when, start - DUCK_ATTACK), DUCK_ATTACK / 3);
+      duck.gain.setTargetAtTime(1, when + settings.introPad + region.end, DUCK_RELEASE / 3);
+    });
+
+    bed.start(when);
+    bed.stop(when + duration);
+    sources.push(bed);
+    last = bed;
+  }
+
+  const ended = new Promise<void>(resolve => { last.onended = () => resolve(); });
+  return {
+    duration,
+    ended,
+    stop: () => sources.forEach(s => {
+      s.onended = null;
+      try { s.stop(); } catch (e) {}
+    }),
+  };
+}
+
+// Renders voice and bed into one buffer, keeping peaks under -1 dBFS.
+export async function renderMix(voice: AudioBuffer, music: AudioBuffer | null, settings: MusicBedSettings): Promise<AudioBuffer> {
+  const channels = Math.max(voice.numberOfChannels, music && settings.enabled ? music.numberOfChannels : 1);
+  const length = Math.ceil(mixDuration(voice, settings) * voice.sampleRate);
+  const offline = new OfflineAudioContext(channels, length, voice.sampleRate);
+  scheduleMix(offline, voice, music, settings, { voice: offline.destination, music: offline.destination });
+  const rendered = await offline.startRendering();
+
+  const ceiling = Math.pow(10, -1 / 20);
+  const max = peak(rendered);
+  if (max > ceiling) {
+    for (let c = 0; c < rendered.numberOfChannels; c++) {
+      const data = rendered.getChannelData(c);
+      for (let i = 0; i < data.length; i++) data[i] *= ceiling / max;
+    }
+  }
+  return rendered;
+}
@@ -0,0 +1,310 @@
+import { CompressionPreset, EqPreset, PostProcessSettings, ReverbPreset } from '../types';
+import { silenceBounds } from './audio';
+import { booleanOr, finiteOr, isRecord, oneOf } from './guards';
+
+export const DEFAULT_POST_PROCESS: PostProcessSettings = {
+  normalize: true,
+  targetLufs: -16,
+  trimSilence: false,
+  eq: 'none',
+  compression: 'none',
+  reverb: 'none',
+};
+
+// --- Presets ---
+
+const EQ_PRESETS: Record<EqPreset, { type: BiquadFilterType; frequency: number; gain?: number; Q?: number }[]> = {
+  none: [],
+  warm: [
+    { type: 'lowshelf', frequency: 200, gain: 3 },
+    { type: 'highshelf', frequency: 6000, gain: -3 },
+  ],
+  bright: [
+    { type: 'highpass', frequency: 80, Q: 0.7 },
+    { type: 'highshelf', frequency: 5000, gain: 4 },
+  ],
+  broadcast: [
+    { type: 'highpass', frequency: 90, Q: 0.7 },
+    { type: 'peaking', frequency: 250, gain: -2, Q: 1 },
+    { type: 'peaking', frequency: 3000, gain: 3, Q: 0.9 },
+  ],
+  telephone: [
+    { type: 'highpass', frequency: 400, Q: 0.9 },
+    { type: 'lowpass', frequency: 3200, Q: 0.9 },
+  ],
+};
+
+const COMPRESSION_PRESETS: Record<Exclude<CompressionPreset, 'none'>, { threshold: number; ratio: number; knee: number; attack: number; release: number }> = {
+  light: { threshold: -24, ratio: 2.5, knee: 12, attack: 0.01, release: 0.25 },
+  heavy: { threshold: -32, ratio: 6, knee: 6, attack: 0.003, release: 0.15 },
+};
+
+const REVERB_PRESETS: Record<Exclude<ReverbPreset, 'none'>, { seconds: number; wet: number }> = {
+  room: { seconds: 0.8, wet: 0.18 },
+  hall: { seconds: 2.5, wet: 0.28 },
+};
+
+export const EQ_OPTIONS = Object.keys(EQ_PRESETS) as EqPreset[];
+export const COMPRESSION_OPTIONS: CompressionPreset[] = ['none', ...Object.keys(COMPRESSION_PRESETS) as CompressionPreset[]];
+export const REVERB_OPTIONS: ReverbPreset[] = ['none', ...Object.keys(REVERB_PRESETS) as ReverbPreset[]];
+
+export function normalizePostProcess(raw: unknown): PostProcessSettings {
+  const s = isRecord(raw) ? raw : {};
+  const d = DEFAULT_POST_PROCESS;
+  return {
+    normalize: booleanOr(s.normalize, d.normalize),
+    targetLufs: finiteOr(s.targetLufs, d.targetLufs),
+    trimSilence: booleanOr(s.trimSilence, d.trimSilence),
+    eq: oneOf(s.eq, EQ_OPTIONS, d.eq),
+    compression: oneOf(s.compression, COMPRESSION_OPTIONS, d.compression),
+    reverb: oneOf(s.reverb, REVERB_OPTIONS, d.reverb),
+  };
+}
+
+// Decaying stereo noise; seeded so a given preset always sounds the same.
+function impulseResponse(ctx: BaseAudioContext, seconds: number): AudioBuffer {
+  const length = Math.floor(ctx.sampleRate * seconds);
+  const impulse = ctx.createBuffer(2, length, ctx.sampleRate);
+  let seed = 1;
+  const random = () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647;
+  };
+  for (let c = 0; c < 2; c++) {
+    const data = impulse.getChannelData(c);
+    for (let i = 0; i < length; i++) data[i] = (random() * 2 - 1) * Math.pow(1 - i / length, 3);
+  }
+  return impulse;
+}
+
+// --- Effects Chain ---
+
+export interface EffectsChain {
+  input: AudioNode;
+  output: AudioNode;
+}
+
+// EQ -> compressor -> reverb (wet/dry). Works on live and offline contexts,
+// so what plays is what gets exported.
+export function createEffectsChain(ctx: BaseAudioContext, settings: PostProcessSettings): EffectsChain {
+  const input = ctx.createGain();
+  let last: AudioNode = input;
+
+  EQ_PRESETS[settings.eq].forEach(band => {
+    const filter = ctx.createBiquadFilter();
+    filter.type = band.type;
+    filter.frequency.value = band.frequency;
+    if (band.gain !== undefined) filter.gain.value = band.gain;
+    if (band.Q !== undefined) filter.Q.value = band.Q;
+    last.connect(filter);
+    last = filter;
+  });
+
+  if (settings.compression !== 'none') {
+    const preset = COMPRESSION_PRESETS[settings.compression];
+    const compressor = ctx.createDynamicsCompressor();
+    compressor.threshold.value = preset.threshold;
+    compressor.ratio.value = preset.ratio;
+    compressor.knee.value = preset.knee;
+    compressor.attack.value = preset.attack;
+    compressor.release.value = preset.release;
+    last.connect(compressor);
+    last = compressor;
+  }
+
+  const output = ctx.createGain();
+  if (settings.reverb !== 'none') {
+    const preset = REVERB_PRESETS[settings.reverb];
+    const convolver = ctx.createConvolver();
+    convolver.buffer = impulseResponse(ctx, preset.seconds);
+    const wet = ctx.createGain();
+    wet.gain.value = preset.wet;
+    const dry = ctx.createGain();
+    dry.gain.value = 1 - preset.wet / 2;
+    last.connect(dry).connect(output);
+    last.connect(convolver).connect(wet).connect(output);
+  } else {
+    last.connect(output);
+  }
+  return { input, output };
+}
+
+// --- Speed & Pitch ---
+
+// WSOLA time-stretch: 40 ms Hann frames are overlap-added at a fixed output
+// hop, and each one is nudged within ±10 ms to line up with the waveform it
+// continues, which avoids the phasiness of plain overlap-add.
+export function timeStretch(data: Float32Array, factor: number, sampleRate: number): Float32Array {
+  if (Math.abs(factor - 1) < 0.01 || data.length === 0) return data.slice();
+  const frame = Math.max(64, Math.round(sampleRate * 0.04));
+  const hopOut = frame >> 1;
+  const hopIn = hopOut / factor;
+  const tolerance = Math.round(sampleRate * 0.01);
+  const outLength = Math.ceil(data.length * factor);
+  const out = new Float32Array(outLength + frame);
+  const norm = new Float32Array(outLength + frame);
+  const window = new Float32Array(frame);
+  for (let i = 0; i < frame; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (frame - 1));
+
+  let prevPos = 0;
+  for (let k = 0; k * hopOut < outLength; k++) {
+    const nominal = Math.round(k * hopIn);
+    let best = nominal;
+    if (k > 0) {
+      // The samples that would naturally follow the previous frame.
+      const natural = prevPos + hopOut;
+      let bestScore = -Infinity;
+      for (let offset = -tolerance; offset <= tolerance; offset += 2) {
+        const pos = nominal + offset;
+        if (pos < 0 || pos + hopOut >= data.length) continue;
+        let score = 0;
+        for (let i = 0; i < hopOut; i += 2) {
+          const a = natural + i < data.length ? data[natural + i] : 0;
+          score += a * data[pos + i];
+        }
+        if (score > bestScore) {
+          bestScore = score;
+          best = pos;
+        }
+      }
+    }
+    const outPos = k * hopOut;
+    for (let i = 0; i < frame; i++) {
+      const src = best + i;
+      if (src >= data.length) break;
+      out[outPos + i] += data[src] * window[i];
+      norm[outPos + i] += window[i];
+    }
+    prevPos = best;
+  }
+  const result = new Float32Array(outLength);
+  for (let i = 0; i < outLength; i++) result[i] = norm[i] > 1e-3 ? out[i] / norm[i] : 0;
+  return result;
+}
+
+// Linear-interpolation resample; ratio > 1 shortens the signal and raises its pitch.
+export function resample(data: Float32Array, ratio: number): Float32Array {
+  if (Math.abs(ratio - 1) < 0.001) return data.slice();
+  const out = new Float32Array(Math.floor(data.length / ratio));
+  for (let i = 0; i < out.length; i++) {
+    const pos = i * ratio;
+    const j = Math.floor(pos);
+    const frac = pos - j;
+    out[i] = data[j] * (1 - frac) + (data[j + 1] ?? data[j]) * frac;
+  }
+  return out;
+}
+
+// Browser pitch runs 0–2 with 1 as normal; for rendered audio that maps to
+// ±6 semitones so the slider means roughly the same thing on both engines.
+export const pitchToRatio = (pitch: number) => Math.pow(2, ((pitch - 1) * 6) / 12);
+
+// Applies the rate and pitch sliders to a rendered buffer: stretch so the
+// result is 1/rate as long after resampling, then resample to shift pitch.
+export function shapeVoice(buffer: AudioBuffer, rate: number, pitch: number): AudioBuffer {
+  const ratio = pitchToRatio(pitch);
+  if (Math.abs(rate - 1) < 0.01 && Math.abs(ratio - 1) < 0.01) return buffer;
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) =>
+    resample(timeStretch(buffer.getChannelData(c), ratio / rate, buffer.sampleRate), ratio));
+  const shaped = new AudioBuffer({
+    length: Math.max(1, channels[0].length),
+    numberOfChannels: buffer.numberOfChannels,
+    sampleRate: buffer.sampleRate,
+  });
+  channels.forEach((data, c) => shaped.copyToChannel(data, c));
+  return shaped;
+}
+
+// --- Loudness ---
+
+// Integrated loudness per ITU-R BS.1770: K-weighting, 400 ms blocks with 75%
+// overlap, an absolute gate at -70 LUFS and a relative gate 10 LU below.
+export async function measureLoudness(buffer: AudioBuffer): Promise<number> {
+  const offline = new OfflineAudioContext(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  const shelf = offline.createBiquadFilter();
+  shelf.type = 'highshelf';
+  shelf.frequency.value = 1500;
+  shelf.gain.value = 4;
+  const highpass = offline.createBiquadFilter();
+  highpass.type = 'highpass';
+  highpass.frequency.value = 38;
+  highpass.Q.value = 0.5;
+  source.connect(shelf).connect(highpass).connect(offline.destination);
+  source.start();
+  const weighted = await offline.startRendering();
+
+  const block = Math.floor(buffer.sampleRate * 0.4);
+  const step = Math.floor(block / 4);
+  const energies: number[] = [];
+  for (let from = 0; from + block <= weighted.length; from += step) {
+    let sum = 0;
+    for (let c = 0; c < weighted.numberOfChannels; c++) {
+      const data = weighted.getChannelData(c);
+      let channelSum = 0;
+      for (let i = from; i < from + block; i++) channelSum += data[i] * data[i];
+      sum += channelSum / block;
+    }
+    energies.push(sum);
+  }
+  const toLufs = (energy: number) => -0.691 + 10 * Math.log10(energy);
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+  const absolute = energies.filter(e => toLufs(e) > -70);
+  if (absolute.length === 0) return -Infinity;
+  const relativeGate = toLufs(mean(absolute)) - 10;
+  const gated = absolute.filter(e => toLufs(e) > relativeGate);
+  return toLufs(mean(gated.length > 0 ? gated : absolute));
+}
+
+export function peak(buffer: AudioBuffer): number {
+  let max = 0;
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) max = Math.max(max, Math.abs(data[i]));
+  }
+  return max;
+}
+
+// --- Offline Render ---
+
+// Seconds the export drops from the start of the render, so captions made
+// against the raw render can be shifted to match.
+export function leadingTrim(buffer: AudioBuffer, settings: PostProcessSettings): number {
+  return settings.trimSilence ? silenceBounds(buffer).start / buffer.sampleRate : 0;
+}
+
+// Trim -> effects chain (rendered offline) -> loudness normalisation. The gain
+// is capped so peaks stay under -1 dBFS.
+export async function processRender(buffer: AudioBuffer, settings: PostProcessSettings): Promise<AudioBuffer> {
+  let input = buffer;
+  if (settings.trimSilence) {
+    const { start, end } = silenceBounds(buffer);
+    input = new AudioBuffer({ length: end - start, numberOfChannels: buffer.numberOfChannels, sampleRate: buffer.sampleRate });
+    for (let c = 0; c < buffer.numberOfChannels; c++) input.copyToChannel(buffer.getChannelData(c).subarray(start, end), c);
+  }
+
+  // Leave room for the reverb tail.
+  const tail = settings.reverb === 'none' ? 0 : REVERB_PRESETS[settings.reverb].seconds;
+  const length = input.length + Math.ceil(tail * input.sampleRate);
+  const offline = new OfflineAudioContext(input.numberOfChannels, length, input.sampleRate);
+  const chain = createEffectsChain(offline, settings);
+  const source = offline.createBufferSource();
+  source.buffer = input;
+  source.connect(chain.input);
+  chain.output.connect(offline.destination);
+  source.start();
+  const rendered = await offline.startRendering();
+
+  if (!settings.normalize) return rendered;
+  const loudness = await measureLoudness(rendered);
+  if (!Number.isFinite(loudness)) return rendered;
+  const ceiling = Math.pow(10, -1 / 20);
+  const gain = Math.min(Math.pow(10, (settings.targetLufs - loudness) / 20), ceiling / Math.max(peak(rendered), 1e-6));
+  for (let c = 0; c < rendered.numberOfChannels; c++) {
+    const data = rendered.getChannelData(c);
+    for (let i = 0; i < data.length; i++) data[i] *= gain;
+  }
+  return rendered;
+}
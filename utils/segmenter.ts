@@ -0,0 +1,168 @@
+// Splits a script into sentences and groups them into chunks small enough for
+// a single utterance or model call. Offsets always point back into the
+// original text so the UI can map playback position onto the editor.
+
+export interface Sentence {
+  index: number;
+  text: string;
+  start: number;
+  end: number;
+  paragraph: number;
+  speaker?: string;
+  // Detected or marked language; unset reads with the speaker's own voice.
+  lang?: string;
+}
+
+export interface TextChunk {
+  index: number;
+  text: string;
+  start: number;
+  end: number;
+  firstSentence: number;
+  lastSentence: number;
+  speaker?: string;
+  lang?: string;
+}
+
+// Browsers silently stop long utterances (Chrome around 15s), so sentences
+// longer than this are broken at clause and then word boundaries.
+export const MAX_SENTENCE_CHARS = 240;
+
+const FALLBACK_SENTENCE_RE = /[^.!?…。！？]+(?:[.!?…。！？]+["'”’)\]]*|$)/g;
+
+function rawSentences(paragraph: string): { text: string; offset: number }[] {
+  const out: { text: string; offset: number }[] = [];
+  if (typeof Intl !== 'undefined' && typeof Intl.Segmenter === 'function') {
+    const segmenter = new Intl.Segmenter(undefined, { granularity: 'sentence' });
+    for (const seg of segmenter.segment(paragraph)) out.push({ text: seg.segment, offset: seg.index });
+    return out;
+  }
+  let match: RegExpExecArray | null;
+  FALLBACK_SENTENCE_RE.lastIndex = 0;
+  while ((match = FALLBACK_SENTENCE_RE.exec(paragraph)) !== null) {
+    if (match[0].length === 0) {
+      FALLBACK_SENTENCE_RE.lastIndex++;
+      continue;
+    }
+    out.push({ text: match[0], offset: match.index });
+  }
+  return out;
+}
+
+function splitLong(text: string, offset: number, maxChars: number): { text: string; offset: number }[] {
+  if (text.length <= maxChars) return [{ text, offset }];
+  const pieces: { text: string; offset: number }[] = [];
+  let cursor = 0;
+  while (text.length - cursor > maxChars) {
+    const window = text.slice(cursor, cursor + maxChars);
+    let cut = Math.max(window.lastIndexOf(', '), window.lastIndexOf('; '), window.lastIndexOf(': '), window.lastIndexOf(' – '));
+    if (cut < maxChars / 3) cut = window.lastIndexOf(' ');
+    if (cut <= 0) cut = maxChars - 1;
+    pieces.push({ text: text.slice(cursor, cursor + cut + 1), offset: offset + cursor });
+    cursor += cut + 1;
+  }
+  pieces.push({ text: text.slice(cursor), offset: offset + cursor });
+  return pieces;
+}
+
+export function splitSentences(text: string, maxSentenceChars = MAX_SENTENCE_CHARS): Sentence[] {
+  const sentences: Sentence[] = [];
+  const paragraphRe = /[^\n]+(?:\n(?!\s*\n)[^\n]*)*/g;
+  let paragraph = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = paragraphRe.exec(text)) !== null) {
+    const base = match.index;
+    let added = false;
+    rawSentences(match[0]).forEach(raw => {
+      splitLong(raw.text, raw.offset, maxSentenceChars).forEach(piece => {
+        const leading = piece.text.length - piece.text.trimStart().length;
+        const trimmed = piece.text.trim();
+        if (!trimmed) return;
+        const start = base + piece.offset + leading;
+        sentences.push({ index: sentences.length, text: trimmed, start, end: start + trimmed.length, paragraph });
+        added = true;
+      });
+    });
+    if (added) paragraph++;
+  }
+  return sentences;
+}
+
+// Groups consecutive sentences up to maxChars, never across a paragraph
+// break or a change of language. Passing fromSentence rebuilds the queue for a seek. maxChars may
+// vary per sentence when a dialogue mixes engines with different limits.
+export function buildChunks(
+  sentences: Sentence[],
+  maxChars: number | ((sentence: Sentence) => number),
+  fromSentence = 0,
+): TextChunk[] {
+  const limitFor = typeof maxChars === 'function' ? maxChars : () => maxChars;
+  const chunks: TextChunk[] = [];
+  let group: Sentence[] = [];
+
+  const flush = () => {
+    if (group.length === 0) return;
+    const first = group[0];
+    const last = group[group.length - 1];
+    chunks.push({
+      index: chunks.length,
+      text: group.map(s => s.text).join(' '),
+      start: first.start,
+      end: last.end,
+      firstSentence: first.index,
+      lastSentence: last.index,
+      speaker: first.speaker,
+      lang: first.lang,
+    });
+    group = [];
+  };
+
+  sentences.slice(fromSentence).forEach(s => {
+    const length = group.reduce((n, g) => n + g.text.length + 1, 0);
+    const breaks = group.length > 0 && (group[0].paragraph !== s.paragraph || group[0].lang !== s.lang);
+    if (breaks || length + s.text.length > limitFor(s)) flush();
+    group.push(s);
+  });
+  flush();
+  return chunks;
+}
+
+// --- Words ---
+
+export interface Word {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const WORD_RE = /[\p{L}\p{N}]+(?:['’.\-][\p{L}\p{N}]+)*/gu;
+
+// Words of the raw text, skipping anything inside the given ranges (markup
+// tags), so indices line up with the editor.
+export function splitWords(text: string, skip: [number, number][] = []): Word[] {
+  const words: Word[] = [];
+  let s = 0;
+  let m: RegExpExecArray | null;
+  WORD_RE.lastIndex = 0;
+  while ((m = WORD_RE.exec(text)) !== null) {
+    const start = m.index;
+    const end = start + m[0].length;
+    while (s < skip.length && skip[s][1] <= start) s++;
+    if (s < skip.length && skip[s][0] < end) continue;
+    words.push({ text: m[0], start, end });
+  }
+  return words;
+}
+
+// Index of the word containing or following `offset`, or -1 past the end.
+export function wordIndexAt(words: Word[], offset: number): number {
+  let lo = 0;
+  let hi = words.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (words[mid].end <= offset) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo < words.length ? lo : -1;
+}
@@ -0,0 +1,119 @@
+import { SharedSettings, SharedVoice, VoiceOption } from '../types';
+import { isRecord } from './guards';
+
+// Share links carry the editor state in the URL fragment, which never reaches
+// a server. Only names and numbers go in: a cloned voice travels by name and
+// its audio sample stays with the sender.
+//
+// Fragment: #s=<format><payload>, where format "z" is deflate-raw compressed
+// JSON and "j" is plain JSON, both base64url encoded.
+
+const FRAGMENT_KEY = 's';
+
+// [voice name, voice lang, rate, pitch]
+type WireCastEntry = [string, string, number, number];
+
+interface WireSettings {
+  v: 1;
+  t: string;
+  n?: string;
+  l?: string;
+  r: number;
+  p: number;
+  d?: 1;
+  c?: Record<string, WireCastEntry>;
+}
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) => {
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : fallback;
+};
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+async function pipeThrough(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const piped = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(piped).arrayBuffer());
+}
+
+export async function encodeShareFragment(settings: SharedSettings): Promise<string> {
+  const wire: WireSettings = { v: 1, t: settings.text, r: settings.rate, p: settings.pitch };
+  if (settings.voice) {
+    wire.n = settings.voice.name;
+    wire.l = settings.voice.lang;
+  }
+  if (settings.isDialogueMode) {
+    wire.d = 1;
+    const entries = Object.entries(settings.cast);
+    if (entries.length > 0) {
+      wire.c = Object.fromEntries(entries.map(([speaker, s]) => [speaker, [s.voice.name, s.voice.lang, s.rate, s.pitch]]));
+    }
+  }
+  const json = new TextEncoder().encode(JSON.stringify(wire));
+  const payload = typeof CompressionStream === 'undefined'
+    ? `j${toBase64Url(json)}`
+    : `z${toBase64Url(await pipeThrough(json, new CompressionStream('deflate-raw')))}`;
+  return `#${FRAGMENT_KEY}=${payload}`;
+}
+
+// Returns null for fragments that aren't share links; throws on ones that
+// are but can't be read.
+export async function decodeShareFragment(hash: string): Promise<SharedSettings | null> {
+  const payload = new URLSearchParams(hash.replace(/^#/, '')).get(FRAGMENT_KEY);
+  if (!payload) return null;
+
+  let wire: unknown;
+  try {
+    const bytes = fromBase64Url(payload.slice(1));
+    const json = payload[0] === 'z'
+      ? await pipeThrough(bytes, new DecompressionStream('deflate-raw'))
+      : bytes;
+    wire = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new Error('Share link is damaged or incomplete.');
+  }
+  if (!isRecord(wire) || wire.v !== 1 || typeof wire.t !== 'string') throw new Error('Share link is from a newer version.');
+
+  const cast: SharedSettings['cast'] = {};
+  Object.entries(isRecord(wire.c) ? wire.c : {}).forEach(([speaker, entry]) => {
+    if (!Array.isArray(entry) || typeof entry[0] !== 'string') return;
+    cast[speaker] = {
+      voice: { name: entry[0], lang: String(entry[1] ?? '') },
+      rate: clamp(entry[2], 0.5, 2, 1),
+      pitch: clamp(entry[3], 0, 2, 1),
+    };
+  });
+  return {
+    text: wire.t,
+    voice: typeof wire.n === 'string' ? { name: wire.n, lang: String(wire.l ?? '') } : null,
+    rate: clamp(wire.r, 0.5, 2, 1),
+    pitch: clamp(wire.p, 0, 2, 1),
+    isDialogueMode: wire.d === 1,
+    cast,
+  };
+}
+
+// Picks the recipient's closest voice: the same name, then a browser voice in
+// the same locale, then in the same language. Clones are only ever matched by
+// name, since a clone that shares a language is still someone else's voice.
+export function resolveSharedVoice(shared: SharedVoice, voices: VoiceOption[]): { voice: VoiceOption | undefined; exact: boolean } {
+  const exact = voices.find(v => v.name === shared.name)
+    ?? voices.find(v => v.name.toLowerCase() === shared.name.toLowerCase());
+  if (exact) return { voice: exact, exact: true };
+
+  const lang = shared.lang.toLowerCase().replace('_', '-');
+  if (!lang) return { voice: undefined, exact: false };
+  const candidates = voices.filter(v => v.engine === 'browser' && v.lang);
+  const voice = candidates.find(v => v.lang.toLowerCase().replace('_', '-') === lang)
+    ?? candidates.find(v => v.lang.toLowerCase().split(/[-_]/)[0] === lang.split('-')[0]);
+  return { voice, exact: false };
+}
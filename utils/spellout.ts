@@ -0,0 +1,91 @@
+// Text normalisation for <say-as>. English only: the browser and Gemini both
+// cope with localised digits, so other languages fall back to the raw text.
+
+const ONES = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES = ['', 'thousand', 'million', 'billion', 'trillion'];
+
+function underThousand(n: number): string {
+  const parts: string[] = [];
+  if (n >= 100) {
+    parts.push(`${ONES[Math.floor(n / 100)]} hundred`);
+    n %= 100;
+  }
+  if (n >= 20) {
+    parts.push(TENS[Math.floor(n / 10)] + (n % 10 ? `-${ONES[n % 10]}` : ''));
+  } else if (n > 0 || parts.length === 0) {
+    parts.push(ONES[n]);
+  }
+  return parts.join(' ');
+}
+
+export function numberToWords(value: number): string {
+  if (!Number.isFinite(value)) return String(value);
+  if (value < 0) return `minus ${numberToWords(-value)}`;
+
+  const [intPart, fracPart] = String(value).split('.');
+  let n = parseInt(intPart, 10);
+  let words: string;
+  if (n === 0) {
+    words = 'zero';
+  } else {
+    const groups: string[] = [];
+    for (let scale = 0; n > 0 && scale < SCALES.length; scale++) {
+      const group = n % 1000;
+      if (group) groups.unshift(`${underThousand(group)}${SCALES[scale] ? ` ${SCALES[scale]}` : ''}`);
+      n = Math.floor(n / 1000);
+    }
+    words = groups.join(' ');
+  }
+  if (fracPart) words += ` point ${fracPart.split('').map(d => ONES[+d]).join(' ')}`;
+  return words;
+}
+
+export function ordinalToWords(value: number): string {
+  const cardinal = numberToWords(Math.trunc(value));
+  const irregular: Record<string, string> = {
+    one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth',
+  };
+  return cardinal.replace(/([a-z]+)$/, (last) => {
+    if (irregular[last]) return irregular[last];
+    if (last.endsWith('y')) return `${last.slice(0, -1)}ieth`;
+    return `${last}th`;
+  });
+}
+
+export function spellCharacters(text: string): string {
+  return Array.from(text.replace(/\s+/g, '')).join(' ');
+}
+
+export function spellTelephone(text: string): string {
+  return text
+    .replace(/[^\d+#*\s-]/g, '')
+    .split(/[\s-]+/)
+    .filter(Boolean)
+    .map(group => Array.from(group).map(ch => /\d/.test(ch) ? ONES[+ch] : ch === '+' ? 'plus' : ch).join(' '))
+    .join(', ');
+}
+
+// Accepts ISO dates (2024-03-05) or slash/dot dates in the given field order.
+export function formatDate(text: string, format = 'mdy'): string | null {
+  const trimmed = text.trim();
+  let year: number, month: number, day: number;
+
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(trimmed);
+  if (iso) {
+    [year, month, day] = [+iso[1], +iso[2], +iso[3]];
+  } else {
+    const parts = trimmed.split(/[/.\-]/).map(p => parseInt(p, 10));
+    if (parts.length !== 3 || parts.some(isNaN)) return null;
+    const order = format.toLowerCase();
+    if (!/^[dmy]{3}$/.test(order)) return null;
+    const field = (c: string) => parts[order.indexOf(c)];
+    [year, month, day] = [field('y'), field('m'), field('d')];
+    if (year < 100) year += year < 50 ? 2000 : 1900;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return new Intl.DateTimeFormat('en-US', { dateStyle: 'long', timeZone: 'UTC' }).format(date);
+}
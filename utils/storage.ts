@@ -0,0 +1,13 @@
+// Settings saved in localStorage by earlier versions, or edited by hand, may
+// not match today's types, so each one is narrowed on the way in. A value that
+// can't be read falls back to the default instead of breaking startup.
+export function readStored<T>(key: string, narrow: (raw: unknown) => T, fallback: T): T {
+  const saved = localStorage.getItem(key);
+  if (saved === null) return fallback;
+  try {
+    return narrow(JSON.parse(saved));
+  } catch (err) {
+    console.error(`Saved ${key} unreadable:`, err);
+    return fallback;
+  }
+}
@@ -0,0 +1,145 @@
+import { SubtitleCue, SubtitleFormat, SubtitleOptions, TimedWord } from '../types';
+import { Word, wordIndexAt } from './segmenter';
+import { estimateWordTimes } from './timing';
+import { finiteOr, isRecord } from './guards';
+
+// Caption timing is collected per chunk while a render plays: when the chunk
+// started and ended on the output timeline, plus any word boundaries the
+// engine reported. Words without a reported time are estimated.
+
+export interface ChunkTiming {
+  start: number;
+  end: number;
+  t0: number;
+  t1: number;
+  wordTimes: { offset: number; time: number }[];
+}
+
+export const DEFAULT_SUBTITLE_OPTIONS: SubtitleOptions = {
+  maxCharsPerLine: 42,
+  maxLines: 2,
+  maxDuration: 6,
+  minDuration: 1,
+};
+
+export function normalizeSubtitleOptions(raw: unknown): SubtitleOptions {
+  const s = isRecord(raw) ? raw : {};
+  const d = DEFAULT_SUBTITLE_OPTIONS;
+  return {
+    maxCharsPerLine: finiteOr(s.maxCharsPerLine, d.maxCharsPerLine),
+    maxLines: finiteOr(s.maxLines, d.maxLines),
+    maxDuration: finiteOr(s.maxDuration, d.maxDuration),
+    minDuration: finiteOr(s.minDuration, d.minDuration),
+  };
+}
+
+// The word plus whatever punctuation directly follows it in the script.
+function displayToken(text: string, word: Word): string {
+  const trailing = /^[^\p{L}\p{N}\s<]*/u.exec(text.slice(word.end))?.[0] ?? '';
+  return word.text + trailing;
+}
+
+export function timedWordsFromChunks(text: string, words: Word[], chunks: ChunkTiming[]): TimedWord[] {
+  const timed: TimedWord[] = [];
+  chunks.forEach(chunk => {
+    if (!(chunk.t1 > chunk.t0)) return;
+    const first = wordIndexAt(words, chunk.start);
+    if (first < 0) return;
+    const inChunk = words.slice(first).filter(w => w.start < chunk.end);
+    if (inChunk.length === 0) return;
+
+    const estimated = estimateWordTimes(text, inChunk, chunk.t1 - chunk.t0).map(t => chunk.t0 + t);
+    const reported = new Map<number, number>();
+    chunk.wordTimes.forEach(({ offset, time }) => {
+      const idx = wordIndexAt(words, offset) - first;
+      if (idx >= 0 && idx < inChunk.length && !reported.has(idx)) reported.set(idx, time);
+    });
+
+    let last = chunk.t0;
+    const times = inChunk.map((_, i) => {
+      // Never let an estimate run backwards past a reported boundary.
+      last = Math.max(last, reported.get(i) ?? estimated[i]);
+      return Math.min(last, chunk.t1);
+    });
+    inChunk.forEach((w, i) => timed.push({
+      ...w,
+      text: displayToken(text, w),
+      time: times[i],
+      endTime: i + 1 < inChunk.length ? times[i + 1] : chunk.t1,
+    }));
+  });
+  return timed.sort((a, b) => a.time - b.time);
+}
+
+function wrapLines(tokens: string[], maxChars: number): string[] {
+  const lines: string[] = [];
+  tokens.forEach(token => {
+    const current = lines[lines.length - 1];
+    if (current !== undefined && current.length + 1 + token.length <= maxChars) lines[lines.length - 1] = `${current} ${token}`;
+    else lines.push(token);
+  });
+  return lines;
+}
+
+export function buildCues(words: TimedWord[], options: SubtitleOptions = DEFAULT_SUBTITLE_OPTIONS): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  let group: TimedWord[] = [];
+  const linesOf = (list: TimedWord[]) => wrapLines(list.map(w => w.text), options.maxCharsPerLine);
+
+  const flush = () => {
+    if (group.length === 0) return;
+    cues.push({ start: group[0].time, end: group[group.length - 1].endTime, text: linesOf(group).join('\n') });
+    group = [];
+  };
+
+  words.forEach(word => {
+    const prev = group[group.length - 1];
+    if (prev) {
+      const tooLong = linesOf([...group, word]).length > options.maxLines;
+      const tooSlow = word.endTime - group[0].time > options.maxDuration;
+      // A jump in time means a seek or a gap between takes.
+      const discontinuous = word.time - prev.endTime > 1;
+      const sentenceEnded = /[.!?…]["'”’)]*$/.test(prev.text) && word.time - group[0].time >= options.minDuration;
+      if (tooLong || tooSlow || discontinuous || sentenceEnded) flush();
+    }
+    group.push(word);
+  });
+  flush();
+
+  // Stretch short cues up to the minimum without overlapping the next one.
+  cues.forEach((cue, i) => {
+    const limit = i + 1 < cues.length ? cues[i + 1].start : Infinity;
+    if (cue.end - cue.start < options.minDuration) cue.end = Math.min(cue.start + options.minDuration, limit);
+    if (cue.end > limit) cue.end = limit;
+  });
+  return cues;
+}
+
+// --- Formats ---
+
+function timestamp(seconds: number, separator: ',' | '.'): string {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  const pad = (n: number, w = 2) => String(n).padStart(w, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+export function toSrt(cues: SubtitleCue[]): string {
+  return cues.map((cue, i) =>
+    `${i + 1}\n${timestamp(cue.start, ',')} --> ${timestamp(cue.end, ',')}\n${cue.text}\n`
+  ).join('\n');
+}
+
+export function toVtt(cues: SubtitleCue[]): string {
+  return 'WEBVTT\n\n' + cues.map(cue =>
+    `${timestamp(cue.start, '.')} --> ${timestamp(cue.end, '.')}\n${cue.text}\n`
+  ).join('\n');
+}
+
+export function formatSubtitles(cues: SubtitleCue[], format: SubtitleFormat): Blob {
+  return format === 'srt'
+    ? new Blob([toSrt(cues)], { type: 'application/x-subrip' })
+    : new Blob([toVtt(cues)], { type: 'text/vtt' });
+}
@@ -0,0 +1,34 @@
+import { Word } from './segmenter';
+
+// Rendered clone audio carries no word timestamps, so word onsets are
+// estimated by spreading the chunk's duration over its words, weighted by
+// length plus a pause allowance for the punctuation that follows each word.
+
+const WORD_WEIGHT_BASE = 2;
+const COMMA_PAUSE = 3;
+const STOP_PAUSE = 6;
+
+export function estimateWordTimes(text: string, words: Word[], duration: number): number[] {
+  if (words.length === 0) return [];
+  const weights = words.map((w, i) => {
+    const gapEnd = i + 1 < words.length ? words[i + 1].start : text.length;
+    const gap = text.slice(w.end, gapEnd);
+    const pause = /[.!?…]/.test(gap) ? STOP_PAUSE : /[,;:–—]/.test(gap) ? COMMA_PAUSE : 0;
+    return w.text.length + WORD_WEIGHT_BASE + pause;
+  });
+  const total = weights.reduce((a, b) => a + b, 0);
+  const times: number[] = [];
+  let acc = 0;
+  weights.forEach(weight => {
+    times.push((acc / total) * duration);
+    acc += weight;
+  });
+  return times;
+}
+
+// Index of the last word whose onset is at or before `elapsed`.
+export function wordAtTime(times: number[], elapsed: number): number {
+  let idx = -1;
+  for (let i = 0; i < times.length && times[i] <= elapsed; i++) idx = i;
+  return idx;
+}
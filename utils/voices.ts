@@ -0,0 +1,139 @@
+import { ClonedVoice, SpeakerSettings, VoiceOption } from '../types';
+import { isRecord } from './guards';
+
+// --- Lookup ---
+
+export const cloneVoiceId = (clone: ClonedVoice) => `gemini:${clone.id}`;
+
+// Settings saved before voices had ids stored the display name instead, so a
+// name is accepted as a fallback.
+export function findVoice(voices: VoiceOption[], key: string | undefined): VoiceOption | undefined {
+  if (!key) return undefined;
+  return voices.find(v => v.id === key) ?? voices.find(v => v.name === key);
+}
+
+// Older casts stored { voiceName }; findVoice still resolves those names.
+export function migrateCast(raw: unknown): Record<string, SpeakerSettings> {
+  return Object.fromEntries(Object.entries(isRecord(raw) ? raw : {}).map(([speaker, value]) => {
+    const s = isRecord(value) ? value : {};
+    return [speaker, {
+      voiceId: String(s.voiceId ?? s.voiceName ?? ''),
+      rate: Number(s.rate) || 1,
+      pitch: Number.isFinite(Number(s.pitch)) ? Number(s.pitch) : 1,
+    }];
+  }));
+}
+
+// Voice for text in another language: the user's pick for that language,
+// else a browser voice for the exact locale, the user's region, or any region.
+export function voiceForLanguage(voices: VoiceOption[], lang: string, defaults: Record<string, string>): VoiceOption | undefined {
+  const primary = lang.split(/[-_]/)[0].toLowerCase();
+  const picked = findVoice(voices, defaults[primary]);
+  if (picked) return picked;
+  const norm = (l: string) => l.replace('_', '-').toLowerCase();
+  const candidates = voices.filter(v => v.engine === 'browser' && norm(v.lang).split('-')[0] === primary);
+  const region = navigator.language.split('-')[1]?.toLowerCase();
+  return candidates.find(v => norm(v.lang) === norm(lang))
+    ?? (region ? candidates.find(v => norm(v.lang) === `${primary}-${region}`) : undefined)
+    ?? candidates[0];
+}
+
+// --- Labels & Tags ---
+
+const languageNames = new Intl.DisplayNames(undefined, { type: 'language' });
+const regionNames = new Intl.DisplayNames(undefined, { type: 'region' });
+
+function displayName(names: Intl.DisplayNames, code: string): string {
+  try {
+    return names.of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+// "en-GB" -> { language: "English", region: "United Kingdom" }. Some
+// platforms report "en_GB".
+export function describeLang(lang: string): { language: string; region: string } {
+  const [language, region] = lang.replace('_', '-').split('-');
+  return {
+    language: language ? displayName(languageNames, language.toLowerCase()) : '',
+    region: region && /^[A-Za-z]{2}$|^\d{3}$/.test(region) ? displayName(regionNames, region.toUpperCase()) : '',
+  };
+}
+
+// The Web Speech API says nothing about gender or quality, but many platforms
+// put it in the voice name ("Microsoft Aria Online (Natural)", "Samantha
+// (Enhanced)", "Google UK English Female").
+const NAME_TAGS: [RegExp, string][] = [
+  [/\bfemale\b/i, 'Female'],
+  [/\bmale\b/i, 'Male'],
+  [/\b(natural|neural|wavenet|studio)\b/i, 'Natural'],
+  [/\b(premium|enhanced)\b/i, 'Premium'],
+  [/\b(compact|eloquence|espeak)\b/i, 'Basic'],
+];
+
+export function voiceTags(voice: VoiceOption): string[] {
+  return NAME_TAGS.filter(([re]) => re.test(voice.name)).map(([, tag]) => tag);
+}
+
+export function matchesVoiceQuery(voice: VoiceOption, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  const { language, region } = describeLang(voice.lang);
+  return [voice.name, voice.lang, language, region, ...voiceTags(voice)]
+    .some(field => field.toLowerCase().includes(q));
+}
+
+// --- Grouping ---
+
+export interface VoiceGroup {
+  key: string;
+  label: string;
+  voices: VoiceOption[];
+}
+
+// Clones and test tones get their own groups; browser voices are grouped by
+// locale, with the user's own language first.
+export function groupVoices(voices: VoiceOption[], userLang = navigator.language): VoiceGroup[] {
+  const groups = new Map<string, VoiceGroup>();
+  const add = (key: string, label: string, voice: VoiceOption) => {
+    if (!groups.has(key)) groups.set(key, { key, label, voices: [] });
+    groups.get(key)!.voices.push(voice);
+  };
+  voices.forEach(v => {
+    if (v.engine === 'gemini') return add('clones', 'Cloned Voices', v);
+    if (v.engine === 'mock') return add('mock', 'Test Tones', v);
+    const key = v.lang.replace('_', '-') || 'other';
+    const { language, region } = describeLang(v.lang);
+    add(key, language ? (region ? `${language} · ${region}` : language) : 'Other', v);
+  });
+
+  const primary = userLang.split('-')[0].toLowerCase();
+  const rank = (g: VoiceGroup) =>
+    g.key === 'clones' ? 0 : g.key.toLowerCase() === userLang.toLowerCase() ? 1
+      : g.key.split('-')[0].toLowerCase() === primary ? 2 : g.key === 'mock' ? 4 : g.key === 'other' ? 5 : 3;
+  return [...groups.values()].sort((a, b) => rank(a) - rank(b) || a.label.localeCompare(b.label));
+}
+
+// --- Previews ---
+
+const SAMPLE_PHRASES: Record<string, string> = {
+  en: 'Hello! This is how I sound reading your script.',
+  es: '¡Hola! Así sueno leyendo tu guion.',
+  fr: 'Bonjour ! Voici comment je lis votre texte.',
+  de: 'Hallo! So klinge ich, wenn ich Ihr Skript lese.',
+  it: 'Ciao! Ecco come suono leggendo il tuo testo.',
+  pt: 'Olá! É assim que eu soo lendo o seu roteiro.',
+  nl: 'Hallo! Zo klink ik als ik je tekst voorlees.',
+  ja: 'こんにちは。これが私の声です。',
+  zh: '你好！这是我朗读你的稿子的声音。',
+  ko: '안녕하세요! 제 목소리는 이렇습니다.',
+  ru: 'Здравствуйте! Так звучит мой голос.',
+  hi: 'नमस्ते! मेरी आवाज़ ऐसी सुनाई देती है।',
+  ar: 'مرحبًا! هكذا يبدو صوتي.',
+};
+
+// Clones have no language, so they read the English line.
+export function samplePhrase(lang: string): string {
+  return SAMPLE_PHRASES[lang.split(/[-_]/)[0].toLowerCase()] ?? SAMPLE_PHRASES.en;
+}